@@ -0,0 +1,20 @@
+// Built-in fallback for the common-password check, used alongside any list
+// loaded from PASSWORD_COMMON_LIST. Entries are lowercase base words: the
+// policy strips trailing digits and symbols before comparing, so "Password1!"
+// matches "password".
+export const COMMON_PASSWORDS = [
+  '123456', '123456789', '12345678', '1234567890', '1234567', '111111', '000000', '123123',
+  '654321', '666666', '121212', '112233', '987654321', '123321', '7777777', '88888888',
+  'password', 'passw0rd', 'p@ssw0rd', 'p@ssword', 'pass', 'passwort', 'motdepasse', 'contraseña',
+  'qwerty', 'qwertyuiop', 'qwerty123', 'asdfgh', 'asdfghjkl', 'zxcvbnm', '1q2w3e4r', '1qaz2wsx',
+  'qazwsx', 'abc', 'abcdef', 'abcd1234', 'aa123456', 'a1b2c3', 'iloveyou', 'welcome', 'welcome1',
+  'letmein', 'admin', 'administrator', 'root', 'login', 'guest', 'master', 'secret', 'changeme',
+  'default', 'test', 'testing', 'hello', 'hellothere', 'monkey', 'dragon', 'shadow', 'sunshine',
+  'princess', 'football', 'baseball', 'soccer', 'hockey', 'basketball', 'superman', 'batman',
+  'starwars', 'pokemon', 'michael', 'jennifer', 'jordan', 'hunter', 'ranger', 'buster', 'tigger',
+  'charlie', 'thomas', 'daniel', 'andrew', 'jessica', 'ashley', 'nicole', 'matthew', 'trustno',
+  'freedom', 'whatever', 'computer', 'internet', 'killer', 'cheese', 'summer', 'winter', 'spring',
+  'autumn', 'flower', 'lovely', 'loveme', 'blink', 'mustang', 'ferrari', 'porsche', 'corvette',
+  'harley', 'yamaha', 'camaro', 'chevy', 'honda', 'toyota', 'nissan', 'mercedes', 'jeep',
+  'convoy', 'armada', 'roadtrip', 'trucker', 'driver', 'cruiser'
+];
@@ -0,0 +1,58 @@
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  audiences: string[];
+  jwksUri?: string; // fetched over HTTPS
+  jwksFile?: string; // or read from disk, e.g. for offline tests
+}
+
+// Well-known issuers and key locations; audiences always come from the environment
+const DEFAULTS: Record<string, { issuer: string; jwksUri: string }> = {
+  google: {
+    issuer: 'https://accounts.google.com',
+    jwksUri: 'https://www.googleapis.com/oauth2/v3/certs'
+  },
+  apple: {
+    issuer: 'https://appleid.apple.com',
+    jwksUri: 'https://appleid.apple.com/auth/keys'
+  },
+  firebase: {
+    issuer: `https://securetoken.google.com/${process.env.FIREBASE_PROJECT_ID || ''}`,
+    jwksUri: 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com'
+  }
+};
+
+function list(value: string | undefined): string[] {
+  return (value || '').split(',').map(s => s.trim()).filter(Boolean);
+}
+
+// OIDC_PROVIDERS=google,apple enables providers; each is configured with
+// OIDC_<NAME>_AUDIENCE (comma-separated client ids) and optionally
+// OIDC_<NAME>_ISSUER, OIDC_<NAME>_JWKS_URI or OIDC_<NAME>_JWKS_FILE.
+// Firebase defaults its audience to FIREBASE_PROJECT_ID.
+export function loadOidcProviders(env: NodeJS.ProcessEnv = process.env): Map<string, OidcProviderConfig> {
+  const providers = new Map<string, OidcProviderConfig>();
+
+  for (const name of list(env.OIDC_PROVIDERS)) {
+    const prefix = `OIDC_${name.toUpperCase()}_`;
+    const defaults = DEFAULTS[name];
+    const issuer = env[`${prefix}ISSUER`] || defaults?.issuer;
+    const audiences = list(env[`${prefix}AUDIENCE`] || (name === 'firebase' ? env.FIREBASE_PROJECT_ID : ''));
+    const jwksFile = env[`${prefix}JWKS_FILE`];
+    const jwksUri = env[`${prefix}JWKS_URI`] || defaults?.jwksUri;
+
+    if (!issuer || audiences.length === 0 || (!jwksFile && !jwksUri)) {
+      console.warn(`⚠️  OIDC provider "${name}" is missing its issuer, audience or JWKS location and was skipped.`);
+      continue;
+    }
+
+    providers.set(name, {
+      name,
+      issuer,
+      audiences,
+      ...(jwksFile ? { jwksFile } : { jwksUri: jwksUri! })
+    });
+  }
+
+  return providers;
+}
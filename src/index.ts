@@ -5,9 +5,22 @@ import helmet from 'helmet';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import { createServer } from 'http';
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, type DefaultEventsMap } from 'socket.io';
 import { connectMongo } from './config/mongo.js';
 import { errorHandler } from './middleware/errors.js';
+import { jwtKeyStore } from './services/jwtKeyStore.js';
+import { accountDeletionService } from './services/accountDeletionService.js';
+import { dataExportService } from './services/dataExportService.js';
+import { socketAuthMiddleware, bindSocketSession } from './sockets/auth.js';
+import { registerConvoyHandlers } from './sockets/convoys.js';
+import { registerChatHandlers } from './sockets/chat.js';
+import { registerPresenceHandlers } from './sockets/presence.js';
+import { registerReplayHandlers } from './sockets/replay.js';
+import { createMongoAdapter } from './sockets/mongoAdapter.js';
+import { realtimeService } from './services/realtimeService.js';
+import { presenceService } from './services/presenceService.js';
+import { eventLogService } from './services/eventLogService.js';
+import type { SocketData } from './types/socket.js';
 
 // Routes
 import auth from './routes/auth.js';
@@ -19,10 +32,18 @@ import convoys from './routes/convoys.js';
 import media from './routes/media.js';
 import notifications from './routes/notifications.js';
 import devices from './routes/devicetokens.js';
+import admin from './routes/admin.js';
 
 const app = express();
 const server = createServer(app);
 
+// Behind a load balancer (e.g. Render) req.ip is only the client address when
+// proxies are trusted; per-IP login throttling depends on it
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' ? true : trustProxy);
+}
+
 // CORS configuration
 const allowedOrigins = (process.env.ALLOWED_ORIGINS || '').split(',').map(s => s.trim()).filter(Boolean);
 app.use(cors({
@@ -63,6 +84,12 @@ app.use(rateLimit({
 app.get('/health', (_req, res) => res.status(200).json({ status: 'ok' }));
 app.get('/ready', (_req, res) => res.status(200).json({ status: 'ready' }));
 
+// Public keys for other services verifying our access tokens
+app.get('/.well-known/jwks.json', (_req, res) => {
+  res.set('Cache-Control', 'public, max-age=300');
+  res.json(jwtKeyStore.getJwks());
+});
+
 // Routes
 app.use('/auth', auth);
 app.use('/me', me);
@@ -73,60 +100,34 @@ app.use('/convoys', convoys);
 app.use('/media', media);
 app.use('/notifications', notifications);
 app.use('/devices', devices);
+app.use('/admin', admin);
 
 // Socket.IO setup
-const io = new SocketIOServer(server, {
+const io = new SocketIOServer<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>(server, {
   cors: {
     origin: allowedOrigins.length > 0 ? allowedOrigins : true,
     credentials: true
-  }
+  },
+  maxHttpBufferSize: 64 * 1024 // largest socket payload is a 2000-character message
 });
 
+realtimeService.attach(io);
+
 // Socket.IO namespaces
 const presenceNamespace = io.of('/presence');
 const chatNamespace = io.of('/chat');
 
-// Socket.IO middleware for authentication
-const socketAuthMiddleware = async (socket: any, next: any) => {
-  try {
-    const token = socket.handshake.auth.token;
-    if (!token) {
-      return next(new Error('Authentication error'));
-    }
-
-    // TODO: Verify JWT token
-    // const payload = await authService.verifyAccessToken(token);
-    // socket.userId = payload.userId;
-    
-    next();
-  } catch (error) {
-    next(new Error('Authentication error'));
-  }
-};
-
 presenceNamespace.use(socketAuthMiddleware);
 chatNamespace.use(socketAuthMiddleware);
 
 // Presence namespace events
 presenceNamespace.on('connection', (socket) => {
   console.log(`User connected to presence: ${socket.id}`);
+  bindSocketSession(socket);
+  registerPresenceHandlers(socket);
+  registerReplayHandlers(socket);
+  registerConvoyHandlers(socket);
   
-  socket.on('location:update', (data) => {
-    // Broadcast location to convoy members
-    socket.broadcast.emit('location:update', {
-      userId: (socket as any).userId,
-      ...data
-    });
-  });
-
-  socket.on('convoy:join', (convoyId) => {
-    socket.join(`convoy:${convoyId}`);
-  });
-
-  socket.on('convoy:leave', (convoyId) => {
-    socket.leave(`convoy:${convoyId}`);
-  });
-
   socket.on('disconnect', () => {
     console.log(`User disconnected from presence: ${socket.id}`);
   });
@@ -135,22 +136,11 @@ presenceNamespace.on('connection', (socket) => {
 // Chat namespace events
 chatNamespace.on('connection', (socket) => {
   console.log(`User connected to chat: ${socket.id}`);
+  bindSocketSession(socket);
+  registerPresenceHandlers(socket);
+  registerReplayHandlers(socket);
+  registerChatHandlers(socket);
   
-  socket.on('thread:join', (threadId) => {
-    socket.join(`thread:${threadId}`);
-  });
-
-  socket.on('thread:leave', (threadId) => {
-    socket.leave(`thread:${threadId}`);
-  });
-
-  socket.on('thread:typing', (data) => {
-    socket.to(`thread:${data.threadId}`).emit('thread:typing', {
-      userId: (socket as any).userId,
-      ...data
-    });
-  });
-
   socket.on('disconnect', () => {
     console.log(`User disconnected from chat: ${socket.id}`);
   });
@@ -163,7 +153,19 @@ const PORT = Number(process.env.PORT || 8080);
 
 // Start server
 connectMongo(process.env.MONGO_URI || '')
-  .then(() => {
+  .then(async () => {
+    // Rooms and presence span instances only with the MongoDB adapter
+    if (process.env.SOCKET_ADAPTER === 'mongo') {
+      io.adapter(await createMongoAdapter({
+        collectionSizeBytes: Number(process.env.SOCKET_ADAPTER_COLLECTION_MB || 16) * 1024 * 1024
+      }));
+      realtimeService.enableCluster();
+      console.log('[socket] mongo adapter enabled');
+    }
+    accountDeletionService.start();
+    dataExportService.start();
+    presenceService.start();
+    eventLogService.start();
     server.listen(PORT, () => {
       console.log(`[mongo] connected`);
       console.log(`[api] server running on port ${PORT}`);
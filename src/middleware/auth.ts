@@ -1,14 +1,91 @@
 import type { Request, Response, NextFunction } from 'express';
 import { authService } from '../services/authService.js';
-import { User } from '../models/User.js';
+import { personalAccessTokenService } from '../services/personalAccessTokenService.js';
+import { principalCache, isPrincipalSuspended, type CachedPrincipal } from '../services/principalCache.js';
+import { hasRole, type UserRole } from '../models/User.js';
+import { PERSONAL_ACCESS_TOKEN_PREFIX } from '../models/PersonalAccessToken.js';
+import type { TokenScope } from '../types/auth.js';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email: string;
     username: string;
+    emailVerified: boolean;
+    role: UserRole;
   };
   userId?: string;
+  sessionId?: string;
+  // Set only when authenticated with a personal access token
+  accessTokenId?: string;
+  tokenScopes?: TokenScope[];
+}
+
+interface Principal {
+  userId: string;
+  sessionId?: string | undefined;
+  accessTokenId?: string;
+  tokenScopes?: TokenScope[];
+}
+
+// Bearer credentials are either access JWTs or personal access tokens
+async function resolvePrincipal(token: string): Promise<Principal> {
+  if (token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+    const { id, userId, scopes } = await personalAccessTokenService.authenticate(token);
+    return { userId, accessTokenId: id, tokenScopes: scopes };
+  }
+
+  const payload = await authService.verifyAccessToken(token);
+  return { userId: payload.userId, sessionId: payload.sessionId };
+}
+
+function applyPrincipal(req: AuthenticatedRequest, user: CachedPrincipal, principal: Principal) {
+  req.user = {
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    emailVerified: user.emailVerified,
+    role: user.role
+  };
+  req.userId = user.id;
+  if (principal.sessionId) {
+    req.sessionId = principal.sessionId;
+  }
+  if (principal.accessTokenId) {
+    req.accessTokenId = principal.accessTokenId;
+    req.tokenScopes = principal.tokenScopes || [];
+  }
+}
+
+// Actions that can be gated behind a verified email via REQUIRE_VERIFIED_EMAIL
+// (comma-separated, e.g. "public_convoys,friend_requests")
+export type VerifiedEmailAction = 'public_convoys' | 'friend_requests';
+
+const verifiedEmailActions = new Set(
+  (process.env.REQUIRE_VERIFIED_EMAIL || '').split(',').map(s => s.trim()).filter(Boolean)
+);
+
+export function isVerifiedEmailRequired(action: VerifiedEmailAction): boolean {
+  return verifiedEmailActions.has(action);
+}
+
+export function sendEmailNotVerified(res: Response) {
+  return res.status(403).json({
+    error: {
+      code: 'EMAIL_NOT_VERIFIED',
+      message: 'Verify your email address to perform this action'
+    }
+  });
+}
+
+// Must run after requireAuth
+export function requireVerifiedEmail(action: VerifiedEmailAction) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!isVerifiedEmailRequired(action) || req.user?.emailVerified) {
+      return next();
+    }
+    sendEmailNotVerified(res);
+  };
 }
 
 export async function requireAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
@@ -25,10 +102,9 @@ export async function requireAuth(req: AuthenticatedRequest, res: Response, next
       });
     }
 
-    const payload = await authService.verifyAccessToken(token);
+    const principal = await resolvePrincipal(token);
     
-    // Optionally fetch user details (can be cached for performance)
-    const user = await User.findById(payload.userId).select('email username avatarUrl');
+    const user = await principalCache.get(principal.userId);
     if (!user) {
       return res.status(401).json({ 
         error: { 
@@ -38,12 +114,17 @@ export async function requireAuth(req: AuthenticatedRequest, res: Response, next
       });
     }
 
-    req.user = {
-      id: user._id.toString(),
-      email: user.email,
-      username: user.username
-    };
-    req.userId = user._id.toString();
+    if (isPrincipalSuspended(user)) {
+      return res.status(403).json({
+        error: {
+          code: 'ACCOUNT_SUSPENDED',
+          message: 'This account has been suspended',
+          ...(user.suspendedUntil ? { suspendedUntil: new Date(user.suspendedUntil) } : {})
+        }
+      });
+    }
+
+    applyPrincipal(req, user, principal);
     
     next();
   } catch (error) {
@@ -65,16 +146,11 @@ export async function optionalAuth(req: AuthenticatedRequest, res: Response, nex
       return next(); // Continue without authentication
     }
 
-    const payload = await authService.verifyAccessToken(token);
-    const user = await User.findById(payload.userId).select('email username avatarUrl');
+    const principal = await resolvePrincipal(token);
+    const user = await principalCache.get(principal.userId);
     
-    if (user) {
-      req.user = {
-        id: user._id.toString(),
-        email: user.email,
-        username: user.username
-      };
-      req.userId = user._id.toString();
+    if (user && !isPrincipalSuspended(user)) {
+      applyPrincipal(req, user, principal);
     }
     
     next();
@@ -83,3 +159,47 @@ export async function optionalAuth(req: AuthenticatedRequest, res: Response, nex
     next();
   }
 }
+
+// Must run after requireAuth/optionalAuth. Session requests pass; personal
+// access tokens need the scope.
+export function requireScope(scope: TokenScope) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.tokenScopes || req.tokenScopes.includes(scope)) {
+      return next();
+    }
+    res.status(403).json({
+      error: {
+        code: 'INSUFFICIENT_SCOPE',
+        message: `This access token lacks the "${scope}" scope`
+      }
+    });
+  };
+}
+
+// For account and credential management, which personal access tokens can never reach
+export function requireSession(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (!req.accessTokenId) {
+    return next();
+  }
+  res.status(403).json({
+    error: {
+      code: 'SESSION_REQUIRED',
+      message: 'This endpoint cannot be used with a personal access token'
+    }
+  });
+}
+
+// Must run after requireAuth. Roles are ordered, so admins pass moderator checks.
+export function requireRole(role: UserRole) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (req.user && hasRole(req.user.role, role)) {
+      return next();
+    }
+    res.status(403).json({
+      error: {
+        code: 'FORBIDDEN',
+        message: 'You do not have permission to perform this action'
+      }
+    });
+  };
+}
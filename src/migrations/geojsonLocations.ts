@@ -0,0 +1,47 @@
+import 'dotenv/config';
+import mongoose, { type Model } from 'mongoose';
+import { connectMongo } from '../config/mongo.js';
+import { Convoy } from '../models/Convoy.js';
+import { User } from '../models/User.js';
+
+// Rewrites Convoy.currentCenter and User.location from { lat, lng, ... } to
+// GeoJSON points, then builds their 2dsphere indexes, which the models leave
+// out of autoIndex. Run it before the new code starts serving, on every
+// deploy (render.yaml does this as the pre-deploy step):
+//   npm run build && npm run migrate:geojson
+// Documents already converted are left alone, so it is safe to re-run.
+
+async function migrateField(model: Model<any>, field: string) {
+  const converted = await model.updateMany(
+    {
+      [`${field}.lat`]: { $gte: -90, $lte: 90 },
+      [`${field}.lng`]: { $gte: -180, $lte: 180 }
+    },
+    [
+      { $set: { [`${field}.type`]: 'Point', [`${field}.coordinates`]: [`$${field}.lng`, `$${field}.lat`] } },
+      { $unset: [`${field}.lat`, `${field}.lng`] }
+    ]
+  );
+
+  // Whatever still has lat/lng was out of range; it would block the index
+  const dropped = await model.updateMany({ [`${field}.lat`]: { $exists: true } }, { $unset: { [field]: 1 } });
+
+  console.log(`[migrate] ${model.modelName}.${field}: ${converted.modifiedCount} converted, ${dropped.modifiedCount} invalid removed`);
+
+  await model.collection.createIndex({ [field]: '2dsphere' });
+}
+
+async function main() {
+  await connectMongo(process.env.MONGO_URI || '');
+
+  await migrateField(Convoy, 'currentCenter');
+  await migrateField(User, 'location');
+  console.log('[migrate] 2dsphere indexes ready');
+}
+
+main()
+  .catch((error) => {
+    console.error('[migrate] failed', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
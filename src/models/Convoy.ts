@@ -1,5 +1,6 @@
 import mongoose, { Schema, Model, Document, Types } from 'mongoose';
 import type { QueryWithHelpers } from 'mongoose';
+import { geoPointFields, geoPointJson, toClientLocation, toGeoPoint, type ClientLocation, type GeoPoint } from './geo.js';
 
 export interface IConvoy {
   ownerId: Types.ObjectId;
@@ -21,9 +22,7 @@ export interface IConvoy {
     distance?: number;
     duration?: number;
   };
-  currentCenter?: {
-    lat: number;
-    lng: number;
+  currentCenter?: GeoPoint & {
     heading?: number;
     speed?: number;
     accuracy?: number;
@@ -51,8 +50,17 @@ export interface IConvoyQueryHelpers {
   live(this: QueryWithHelpers<any, IConvoyDoc, IConvoyQueryHelpers>): any;
 }
 
+type ConvoyLocation = NonNullable<IConvoy['currentCenter']>;
+
+// Aggregation result, so `currentCenter` is already in its client shape
+export type NearbyConvoy = Omit<IConvoy, 'currentCenter'> & {
+  _id: Types.ObjectId;
+  currentCenter?: ClientLocation<ConvoyLocation>;
+  distanceKm: number;
+};
+
 export interface IConvoyModel extends Model<IConvoyDoc, IConvoyQueryHelpers> {
-  findNearbyConvoys(lat: number, lng: number, radiusKm: number, limit: number): Promise<IConvoyDoc[]>;
+  findNearbyConvoys(lat: number, lng: number, radiusKm: number, limit: number): Promise<NearbyConvoy[]>;
   findLiveConvoys(limit: number): Promise<IConvoyDoc[]>;
   findByJoinCode(code: string): Promise<IConvoyDoc | null>;
 }
@@ -72,13 +80,12 @@ const ConvoyRouteSchema = new Schema({
 }, { _id: false });
 
 const ConvoyLocationSchema = new Schema({
-  lat: { type: Number, required: true },
-  lng: { type: Number, required: true },
+  ...geoPointFields,
   heading: { type: Number, min: 0, max: 360 },
   speed: { type: Number, min: 0 },
   accuracy: { type: Number, min: 0 },
   updatedAt: { type: Date, default: Date.now }
-}, { _id: false });
+}, { _id: false, toJSON: geoPointJson });
 
 const ConvoySchema = new Schema<IConvoyDoc, IConvoyModel, IConvoyDoc, IConvoyQueryHelpers>({
   ownerId: { 
@@ -110,6 +117,8 @@ const ConvoySchema = new Schema<IConvoyDoc, IConvoyModel, IConvoyDoc, IConvoyQue
 // Indexes
 ConvoySchema.index({ isLive: 1, updatedAt: -1 });
 ConvoySchema.index({ 'currentCenter.updatedAt': -1 });
+// The currentCenter 2dsphere index is built by migrate:geojson rather than
+// autoIndex, which would fail on documents still in the old { lat, lng } shape
 ConvoySchema.index({ deletedAt: 1 });
 
 // Query helpers
@@ -162,8 +171,7 @@ ConvoySchema.methods.updateLocation = async function(
   accuracy?: number
 ): Promise<void> {
   this.currentCenter = {
-    lat,
-    lng,
+    ...toGeoPoint(lat, lng),
     updatedAt: new Date(),
     ...(heading != null ? { heading } : {}),
     ...(speed != null ? { speed } : {}),
@@ -177,23 +185,37 @@ ConvoySchema.methods.generateJoinCode = function(): void {
 };
 
 // Static methods
-ConvoySchema.statics.findNearbyConvoys = function(
+ConvoySchema.statics.findNearbyConvoys = async function(
   lat: number, 
   lng: number, 
   radiusKm: number, 
   limit: number
-): Promise<IConvoyDoc[]> {
-  const delta = radiusKm / 111; // Approximate degrees per km
-  return this.find({
-    isLive: true,
-    'currentCenter.lat': { $gte: lat - delta, $lte: lat + delta },
-    'currentCenter.lng': { $gte: lng - delta, $lte: lng + delta },
-    deletedAt: null
-  })
-  .populate('ownerId', 'username avatarUrl')
-  .populate('members', 'username avatarUrl')
-  .limit(limit)
-  .lean();
+): Promise<NearbyConvoy[]> {
+  // Live convoys within radiusKm of the point, nearest first
+  type Row = IConvoy & { _id: Types.ObjectId; distanceKm: number };
+  const convoys = await this.aggregate<Row>([
+    {
+      $geoNear: {
+        near: toGeoPoint(lat, lng),
+        key: 'currentCenter',
+        distanceField: 'distanceKm',
+        distanceMultiplier: 0.001,
+        maxDistance: radiusKm * 1000,
+        spherical: true,
+        query: { isLive: true, deletedAt: null }
+      }
+    },
+    { $limit: limit }
+  ]);
+
+  const populated = await this.populate<Row>(convoys, [
+    { path: 'ownerId', select: 'username avatarUrl' },
+    { path: 'members', select: 'username avatarUrl' }
+  ]);
+  return populated.map(({ currentCenter, ...convoy }) => ({
+    ...convoy,
+    ...(currentCenter ? { currentCenter: toClientLocation(currentCenter) } : {})
+  }));
 };
 
 ConvoySchema.statics.findLiveConvoys = function(limit: number): Promise<IConvoyDoc[]> {
@@ -201,8 +223,7 @@ ConvoySchema.statics.findLiveConvoys = function(limit: number): Promise<IConvoyD
     .populate('ownerId', 'username avatarUrl')
     .populate('members', 'username avatarUrl')
     .sort({ updatedAt: -1 })
-    .limit(limit)
-    .lean();
+    .limit(limit);
 };
 
 ConvoySchema.statics.findByJoinCode = function(code: string): Promise<IConvoyDoc | null> {
@@ -0,0 +1,82 @@
+import mongoose, { Schema, Model, Document, Types } from 'mongoose';
+
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'expired';
+
+export interface IDataExport {
+  userId: Types.ObjectId;
+  status: DataExportStatus;
+  fileId?: Types.ObjectId | null; // archive in the `data_exports` GridFS bucket
+  size?: number | null; // bytes
+  startedAt?: Date | null;
+  readyAt?: Date | null;
+  expiresAt?: Date | null; // download window; the archive is deleted afterwards
+  error?: string | null;
+}
+
+export interface IDataExportDoc extends Document, IDataExport {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IDataExportModel extends Model<IDataExportDoc> {
+  findActiveForUser(userId: Types.ObjectId): Promise<IDataExportDoc | null>;
+  countRecent(userId: Types.ObjectId, since: Date): Promise<number>;
+  claim(id: Types.ObjectId): Promise<IDataExportDoc | null>;
+  requeueStale(startedBefore: Date): Promise<any>;
+}
+
+const DataExportSchema = new Schema<IDataExportDoc, IDataExportModel>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'ready', 'failed', 'expired'],
+    default: 'pending',
+    index: true
+  },
+  fileId: { type: Schema.Types.ObjectId, default: null },
+  size: { type: Number, default: null },
+  startedAt: { type: Date, default: null },
+  readyAt: { type: Date, default: null },
+  expiresAt: { type: Date, default: null },
+  error: { type: String, default: null }
+}, {
+  timestamps: true
+});
+
+// Indexes
+DataExportSchema.index({ userId: 1, createdAt: -1 });
+DataExportSchema.index({ status: 1, expiresAt: 1 });
+
+// Static methods
+DataExportSchema.statics.findActiveForUser = function(userId: Types.ObjectId): Promise<IDataExportDoc | null> {
+  return this.findOne({ userId, status: { $in: ['pending', 'processing'] } });
+};
+
+DataExportSchema.statics.countRecent = function(userId: Types.ObjectId, since: Date): Promise<number> {
+  return this.countDocuments({ userId, createdAt: { $gte: since } });
+};
+
+// Moves a pending export to processing; null if another worker got there first
+DataExportSchema.statics.claim = function(id: Types.ObjectId): Promise<IDataExportDoc | null> {
+  return this.findOneAndUpdate(
+    { _id: id, status: 'pending' },
+    { $set: { status: 'processing', startedAt: new Date() } },
+    { new: true }
+  );
+};
+
+// Exports left in processing by a crashed or restarted server are retried
+DataExportSchema.statics.requeueStale = function(startedBefore: Date): Promise<any> {
+  return this.updateMany(
+    { status: 'processing', startedAt: { $lt: startedBefore } },
+    { $set: { status: 'pending', startedAt: null } }
+  );
+};
+
+export const DataExport = (mongoose.models.DataExport as IDataExportModel) || mongoose.model<IDataExportDoc, IDataExportModel>('DataExport', DataExportSchema);
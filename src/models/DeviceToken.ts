@@ -1,4 +1,4 @@
-import { Schema, model, Types } from 'mongoose';
+import { Schema, model, Types, type Model } from 'mongoose';
 
 export interface IDeviceToken {
   _id: Types.ObjectId;
@@ -14,7 +14,16 @@ export interface IDeviceToken {
   updatedAt: Date;
 }
 
-const DeviceTokenSchema = new Schema<IDeviceToken>({
+export interface IDeviceTokenModel extends Model<IDeviceToken> {
+  findUserTokens(userId: Types.ObjectId): Promise<IDeviceToken[]>;
+  findByToken(token: string): Promise<IDeviceToken | null>;
+  deactivateToken(token: string): Promise<any>;
+  deactivateUserTokens(userId: Types.ObjectId, filter?: { deviceIds?: string[]; exceptDeviceId?: string }): Promise<any>;
+  updateLastUsed(token: string): Promise<any>;
+  cleanupOldTokens(daysOld?: number): Promise<any>;
+}
+
+const DeviceTokenSchema = new Schema<IDeviceToken, IDeviceTokenModel>({
   userId: { 
     type: Schema.Types.ObjectId, 
     ref: 'User', 
@@ -64,8 +73,20 @@ DeviceTokenSchema.statics.deactivateToken = function(token: string) {
   return this.updateOne({ token }, { isActive: false });
 };
 
-DeviceTokenSchema.statics.deactivateUserTokens = function(userId: Types.ObjectId) {
-  return this.updateMany({ userId }, { isActive: false });
+// Optionally narrowed to (or excluding) specific devices, e.g. when a single session is signed out
+DeviceTokenSchema.statics.deactivateUserTokens = function(
+  userId: Types.ObjectId,
+  filter: { deviceIds?: string[]; exceptDeviceId?: string } = {}
+) {
+  const query: any = { userId };
+
+  if (filter.deviceIds) {
+    query.deviceId = { $in: filter.deviceIds };
+  } else if (filter.exceptDeviceId) {
+    query.deviceId = { $ne: filter.exceptDeviceId };
+  }
+
+  return this.updateMany(query, { isActive: false });
 };
 
 DeviceTokenSchema.statics.updateLastUsed = function(token: string) {
@@ -79,4 +100,4 @@ DeviceTokenSchema.statics.cleanupOldTokens = function(daysOld = 90) {
   });
 };
 
-export const DeviceToken = model<IDeviceToken>('DeviceToken', DeviceTokenSchema);
+export const DeviceToken = model<IDeviceToken, IDeviceTokenModel>('DeviceToken', DeviceTokenSchema);
@@ -0,0 +1,91 @@
+import mongoose, { Schema, Model, Document, Types } from 'mongoose';
+import crypto from 'crypto';
+
+export interface IEmailVerification {
+  userId: Types.ObjectId;
+  email: string; // address the code was sent to; a changed email invalidates it
+  tokenHash: string; // sha256 of the random token in the emailed link
+  codeHash: string; // sha256 of the code, salted with tokenHash
+  expiresAt: Date;
+  attempts: number;
+  sendCount: number; // sends within the current throttle window
+  windowStartedAt: Date;
+  lastSentAt: Date;
+}
+
+export interface IEmailVerificationDoc extends Document, IEmailVerification {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IEmailVerificationModel extends Model<IEmailVerificationDoc> {
+  hashToken(token: string): string;
+  hashCode(tokenHash: string, code: string): string;
+  findByUser(userId: Types.ObjectId): Promise<IEmailVerificationDoc | null>;
+  findByToken(token: string): Promise<IEmailVerificationDoc | null>;
+  claimCodeAttempt(userId: Types.ObjectId, email: string, maxAttempts: number): Promise<IEmailVerificationDoc | null>;
+}
+
+const EmailVerificationSchema = new Schema<IEmailVerificationDoc, IEmailVerificationModel>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true,
+    index: true
+  },
+  email: { type: String, required: true, lowercase: true, trim: true },
+  tokenHash: { type: String, required: true, unique: true, sparse: true },
+  codeHash: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+  attempts: { type: Number, default: 0 },
+  sendCount: { type: Number, default: 0 },
+  windowStartedAt: { type: Date, default: Date.now },
+  lastSentAt: { type: Date, default: Date.now }
+}, {
+  timestamps: true
+});
+
+// Indexes
+// Records outlive their expiry by an hour so the resend throttle can still read them
+EmailVerificationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 60 * 60 });
+
+// Static methods
+EmailVerificationSchema.statics.hashToken = function(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+EmailVerificationSchema.statics.hashCode = function(tokenHash: string, code: string): string {
+  return crypto.createHash('sha256').update(`${tokenHash}:${code}`).digest('hex');
+};
+
+EmailVerificationSchema.statics.findByUser = function(userId: Types.ObjectId): Promise<IEmailVerificationDoc | null> {
+  return this.findOne({ userId });
+};
+
+EmailVerificationSchema.statics.findByToken = function(token: string): Promise<IEmailVerificationDoc | null> {
+  return this.findOne({ tokenHash: this.hashToken(token) });
+};
+
+// Spends one code attempt on the user's live record for `email` and returns
+// it, or null once attempts run out. Counting before the code is compared
+// means concurrent guesses can't get past the limit.
+EmailVerificationSchema.statics.claimCodeAttempt = function(
+  userId: Types.ObjectId,
+  email: string,
+  maxAttempts: number
+): Promise<IEmailVerificationDoc | null> {
+  return this.findOneAndUpdate(
+    {
+      userId,
+      email,
+      expiresAt: { $gt: new Date() },
+      attempts: { $lt: maxAttempts }
+    },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+};
+
+export const EmailVerification = (mongoose.models.EmailVerification as IEmailVerificationModel) || mongoose.model<IEmailVerificationDoc, IEmailVerificationModel>('EmailVerification', EmailVerificationSchema);
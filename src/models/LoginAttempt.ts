@@ -0,0 +1,84 @@
+import mongoose, { Schema, Model, Document, Types } from 'mongoose';
+
+// Failed sign-in counter for one throttling key: `account:<user id>`,
+// `account:<normalized email or username>` for identifiers with no account, or
+// `ip:<address>`. Counters exist whether or not the account does, so
+// throttling doesn't reveal which accounts are registered.
+export interface ILoginAttempt {
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date | null;
+  lockCount: number; // lockouts so far; each one lasts longer than the last
+  expiresAt: Date;
+}
+
+export interface ILoginAttemptDoc extends Document, ILoginAttempt {
+  _id: Types.ObjectId;
+}
+
+export interface ILoginAttemptModel extends Model<ILoginAttemptDoc> {
+  findByKeys(keys: string[]): Promise<ILoginAttemptDoc[]>;
+  recordFailure(key: string, windowMs: number): Promise<ILoginAttemptDoc>;
+  lock(key: string, lockedUntil: Date): Promise<any>;
+  resetFailures(key: string): Promise<any>;
+}
+
+const LoginAttemptSchema = new Schema<ILoginAttemptDoc, ILoginAttemptModel>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  failures: { type: Number, default: 0 },
+  lastFailureAt: { type: Date, default: Date.now },
+  lockedUntil: { type: Date, default: null },
+  lockCount: { type: Number, default: 0 },
+  expiresAt: { type: Date, required: true }
+});
+
+// Counters disappear once both their failure window and any lockout have passed
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static methods
+LoginAttemptSchema.statics.findByKeys = function(keys: string[]): Promise<ILoginAttemptDoc[]> {
+  return this.find({ key: { $in: keys } }).lean();
+};
+
+// Increments the counter, starting over when the previous failure is older than the window
+LoginAttemptSchema.statics.recordFailure = async function(key: string, windowMs: number): Promise<ILoginAttemptDoc> {
+  const now = new Date();
+
+  await this.updateOne(
+    { key, lastFailureAt: { $lt: new Date(now.getTime() - windowMs) } },
+    { $set: { failures: 0 } }
+  );
+
+  return this.findOneAndUpdate(
+    { key },
+    {
+      $inc: { failures: 1 },
+      $set: { lastFailureAt: now },
+      $max: { expiresAt: new Date(now.getTime() + windowMs) }
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+};
+
+LoginAttemptSchema.statics.lock = function(key: string, lockedUntil: Date): Promise<any> {
+  return this.updateOne(
+    { key },
+    {
+      $set: { lockedUntil, failures: 0 },
+      $inc: { lockCount: 1 },
+      $max: { expiresAt: lockedUntil }
+    }
+  );
+};
+
+LoginAttemptSchema.statics.resetFailures = function(key: string): Promise<any> {
+  return this.updateOne({ key }, { $set: { failures: 0 } });
+};
+
+export const LoginAttempt = (mongoose.models.LoginAttempt as ILoginAttemptModel) || mongoose.model<ILoginAttemptDoc, ILoginAttemptModel>('LoginAttempt', LoginAttemptSchema);
@@ -0,0 +1,131 @@
+import mongoose, { Schema, Model, Document, Types } from 'mongoose';
+import crypto from 'crypto';
+
+// One passwordless sign-in grant, redeemable once either through the emailed
+// link (token) or by typing the 6-digit code. Only hashes are stored.
+export interface IMagicLinkToken {
+  userId: Types.ObjectId;
+  tokenHash: string;
+  codeHash: string;
+  attempts: number; // wrong codes entered against this grant
+  expiresAt: Date;
+  usedAt?: Date | null;
+}
+
+export interface IMagicLinkTokenDoc extends Document, IMagicLinkToken {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IMagicLinkTokenModel extends Model<IMagicLinkTokenDoc> {
+  hash(value: string): string;
+  issue(userId: Types.ObjectId, ttlMinutes: number): Promise<{ token: string; code: string }>;
+  countRecent(userId: Types.ObjectId, since: Date): Promise<number>;
+  findLatest(userId: Types.ObjectId): Promise<IMagicLinkTokenDoc | null>;
+  consumeToken(token: string): Promise<IMagicLinkTokenDoc | null>;
+  consumeCode(userId: Types.ObjectId, code: string, maxAttempts: number): Promise<IMagicLinkTokenDoc | null>;
+}
+
+const MagicLinkTokenSchema = new Schema<IMagicLinkTokenDoc, IMagicLinkTokenModel>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  codeHash: { type: String, required: true },
+  attempts: { type: Number, default: 0 },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date, default: null }
+}, {
+  timestamps: true
+});
+
+// Indexes
+MagicLinkTokenSchema.index({ userId: 1, createdAt: -1 });
+// Records outlive their grant by a day so send throttling can still count them
+MagicLinkTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+// Static methods
+MagicLinkTokenSchema.statics.hash = function(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+};
+
+// Issues a new grant, retiring any unused ones so only the latest email works
+MagicLinkTokenSchema.statics.issue = async function(
+  userId: Types.ObjectId,
+  ttlMinutes: number
+): Promise<{ token: string; code: string }> {
+  await this.updateMany({ userId, usedAt: null }, { usedAt: new Date() });
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+  await this.create({
+    userId,
+    tokenHash: this.hash(token),
+    // Salted with the token hash so equal codes don't produce equal hashes
+    codeHash: this.hash(`${this.hash(token)}:${code}`),
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000)
+  });
+
+  return { token, code };
+};
+
+MagicLinkTokenSchema.statics.countRecent = function(userId: Types.ObjectId, since: Date): Promise<number> {
+  return this.countDocuments({ userId, createdAt: { $gte: since } });
+};
+
+MagicLinkTokenSchema.statics.findLatest = function(userId: Types.ObjectId): Promise<IMagicLinkTokenDoc | null> {
+  return this.findOne({ userId }).sort({ createdAt: -1 });
+};
+
+MagicLinkTokenSchema.statics.consumeToken = function(token: string): Promise<IMagicLinkTokenDoc | null> {
+  return this.findOneAndUpdate(
+    { tokenHash: this.hash(token), usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+};
+
+// Checks the code against the user's live grant. A wrong code burns an attempt
+// and the grant is retired once attempts run out.
+MagicLinkTokenSchema.statics.consumeCode = async function(
+  userId: Types.ObjectId,
+  code: string,
+  maxAttempts: number
+): Promise<IMagicLinkTokenDoc | null> {
+  const grant = await this.findOne({
+    userId,
+    usedAt: null,
+    expiresAt: { $gt: new Date() },
+    attempts: { $lt: maxAttempts }
+  });
+
+  if (!grant) {
+    return null;
+  }
+
+  const expected = Buffer.from(grant.codeHash, 'hex');
+  const actual = Buffer.from(this.hash(`${grant.tokenHash}:${code}`), 'hex');
+
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    await this.updateOne({ _id: grant._id }, { $inc: { attempts: 1 } });
+    return null;
+  }
+
+  return this.findOneAndUpdate(
+    { _id: grant._id, usedAt: null },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+};
+
+export const MagicLinkToken = (mongoose.models.MagicLinkToken as IMagicLinkTokenModel) || mongoose.model<IMagicLinkTokenDoc, IMagicLinkTokenModel>('MagicLinkToken', MagicLinkTokenSchema);
@@ -47,8 +47,13 @@ export interface IMessageModel extends Model<IMessageDoc, IMessageQueryHelpers>
   findByThread(threadId: Types.ObjectId, cursor?: Date, limit?: number): Promise<IMessageDoc[]>;
   findRecentMessages(threadIds: Types.ObjectId[], limit?: number): Promise<IMessageDoc[]>;
   getUnreadCount(threadId: Types.ObjectId, userId: Types.ObjectId): Promise<number>;
+  anonymizeSender(userId: Types.ObjectId): Promise<void>;
 }
 
+// Stands in as the sender of messages whose author deleted their account;
+// no user has this id, so populated senders come back as null
+export const DELETED_USER_ID = new Types.ObjectId('000000000000000000000000');
+
 const MessageMediaSchema = new Schema<IMessageMedia>({
   url: { type: String, required: true },
   type: { type: String, enum: ['image', 'video', 'audio'], required: true },
@@ -188,6 +193,13 @@ MessageSchema.statics.getUnreadCount = function(threadId: Types.ObjectId, userId
   });
 };
 
+// Keeps the conversation readable for the other participants while removing
+// every link back to the deleted user, including their reactions
+MessageSchema.statics.anonymizeSender = async function(userId: Types.ObjectId): Promise<void> {
+  await this.updateMany({ senderId: userId }, { $set: { senderId: DELETED_USER_ID } });
+  await this.updateMany({ 'reactions.by': userId }, { $pull: { reactions: { by: userId } } });
+};
+
 // Validation
 MessageSchema.pre('save', function(next) {
   if (!this.text && !this.media) {
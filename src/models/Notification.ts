@@ -9,6 +9,7 @@ export type NotificationType =
   | 'convoy_leave'
   | 'message'
   | 'achievement'
+  | 'security'
   | 'system';
 
 export interface INotificationPayload {
@@ -70,6 +71,8 @@ export interface INotificationModel extends Model<INotificationDoc, INotificatio
   createConvoyInvite(userId: Types.ObjectId, convoyId: string, convoyTitle: string, ownerId: string, ownerUsername: string): INotificationDoc;
   createMessage(userId: Types.ObjectId, threadId: string, senderId: string, senderUsername: string, messagePreview: string): INotificationDoc;
   createAchievement(userId: Types.ObjectId, achievementId: string, achievementTitle: string): INotificationDoc;
+  createSecurityAlert(userId: Types.ObjectId, title: string, message: string): INotificationDoc;
+  createDataExportReady(userId: Types.ObjectId, exportId: string, expiresAt: Date): INotificationDoc;
 }
 
 const NotificationPayloadSchema = new Schema<INotificationPayload>({
@@ -108,6 +111,7 @@ const NotificationSchema = new Schema<INotificationDoc, INotificationModel, INot
       'convoy_leave',
       'message',
       'achievement',
+      'security',
       'system'
     ],
     required: true,
@@ -276,4 +280,36 @@ NotificationSchema.statics.createAchievement = function(
   });
 };
 
+NotificationSchema.statics.createSecurityAlert = function(
+  userId: Types.ObjectId,
+  title: string,
+  message: string
+): INotificationDoc {
+  return new this({
+    userId,
+    type: 'security',
+    payload: {
+      title,
+      message
+    }
+  });
+};
+
+NotificationSchema.statics.createDataExportReady = function(
+  userId: Types.ObjectId,
+  exportId: string,
+  expiresAt: Date
+): INotificationDoc {
+  return new this({
+    userId,
+    type: 'system',
+    payload: {
+      title: 'Your data export is ready',
+      message: `Download your Armada data before ${expiresAt.toUTCString()}.`,
+      actionUrl: `/me/export/${exportId}/download`,
+      metadata: { exportId, expiresAt }
+    }
+  });
+};
+
 export const Notification = (mongoose.models.Notification as INotificationModel) || mongoose.model<INotificationDoc, INotificationModel>('Notification', NotificationSchema);
\ No newline at end of file
@@ -0,0 +1,98 @@
+import mongoose, { Schema, Model, Document, Types } from 'mongoose';
+import crypto from 'crypto';
+
+export interface IPasswordResetToken {
+  userId: Types.ObjectId;
+  tokenHash: string; // sha256 of the token sent by email; the raw token is never stored
+  expiresAt: Date;
+  usedAt?: Date | null;
+}
+
+export interface IPasswordResetTokenDoc extends Document, IPasswordResetToken {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPasswordResetTokenModel extends Model<IPasswordResetTokenDoc> {
+  hashToken(token: string): string;
+  issue(userId: Types.ObjectId, ttlMinutes: number): Promise<string>;
+  findValid(token: string): Promise<IPasswordResetTokenDoc | null>;
+  consume(token: string): Promise<IPasswordResetTokenDoc | null>;
+  invalidateUserTokens(userId: Types.ObjectId): Promise<any>;
+  countRecent(userId: Types.ObjectId, since: Date): Promise<number>;
+}
+
+const PasswordResetTokenSchema = new Schema<IPasswordResetTokenDoc, IPasswordResetTokenModel>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date, default: null }
+}, {
+  timestamps: true
+});
+
+// Expired tokens are removed by MongoDB
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static methods
+PasswordResetTokenSchema.statics.hashToken = function(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Creates a new token for the user, invalidating any still-pending ones, and
+// returns the raw token to be delivered out of band.
+PasswordResetTokenSchema.statics.issue = async function(userId: Types.ObjectId, ttlMinutes: number): Promise<string> {
+  await this.invalidateUserTokens(userId);
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await this.create({
+    userId,
+    tokenHash: this.hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000)
+  });
+
+  return token;
+};
+
+// Looks a token up without using it, e.g. to validate input before consuming
+PasswordResetTokenSchema.statics.findValid = function(token: string): Promise<IPasswordResetTokenDoc | null> {
+  return this.findOne({
+    tokenHash: this.hashToken(token),
+    usedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+// Marks the token as used in a single atomic step so it can only succeed once
+PasswordResetTokenSchema.statics.consume = function(token: string): Promise<IPasswordResetTokenDoc | null> {
+  return this.findOneAndUpdate(
+    {
+      tokenHash: this.hashToken(token),
+      usedAt: null,
+      expiresAt: { $gt: new Date() }
+    },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+};
+
+PasswordResetTokenSchema.statics.invalidateUserTokens = function(userId: Types.ObjectId): Promise<any> {
+  return this.updateMany({ userId, usedAt: null }, { usedAt: new Date() });
+};
+
+PasswordResetTokenSchema.statics.countRecent = function(userId: Types.ObjectId, since: Date): Promise<number> {
+  return this.countDocuments({ userId, createdAt: { $gte: since } });
+};
+
+export const PasswordResetToken = (mongoose.models.PasswordResetToken as IPasswordResetTokenModel) || mongoose.model<IPasswordResetTokenDoc, IPasswordResetTokenModel>('PasswordResetToken', PasswordResetTokenSchema);
@@ -0,0 +1,90 @@
+import mongoose, { Schema, Model, Document, Types } from 'mongoose';
+import crypto from 'crypto';
+import { TOKEN_SCOPES, type TokenScope } from '../types/auth.js';
+
+// Raw tokens carry this prefix so requireAuth can tell them from JWTs and
+// secret scanners can recognise leaked ones
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'arm_pat_';
+
+export interface IPersonalAccessToken {
+  userId: Types.ObjectId;
+  name: string;
+  tokenHash: string; // sha256 of the raw token, which is only shown once
+  lastFour: string; // for telling tokens apart in listings
+  scopes: TokenScope[];
+  expiresAt: Date;
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+}
+
+export interface IPersonalAccessTokenDoc extends Document, IPersonalAccessToken {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPersonalAccessTokenModel extends Model<IPersonalAccessTokenDoc> {
+  hashToken(token: string): string;
+  generateToken(): string;
+  findActiveByToken(token: string): Promise<IPersonalAccessTokenDoc | null>;
+  findUserTokens(userId: Types.ObjectId): Promise<IPersonalAccessTokenDoc[]>;
+  revokeUserTokens(userId: Types.ObjectId): Promise<any>;
+}
+
+const PersonalAccessTokenSchema = new Schema<IPersonalAccessTokenDoc, IPersonalAccessTokenModel>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  lastFour: { type: String, required: true },
+  scopes: [{ type: String, enum: TOKEN_SCOPES }],
+  expiresAt: { type: Date, required: true },
+  lastUsedAt: { type: Date, default: null },
+  revokedAt: { type: Date, default: null }
+}, {
+  timestamps: true
+});
+
+// Indexes
+PersonalAccessTokenSchema.index({ userId: 1, createdAt: -1 });
+// Expired tokens are kept for a month so listings can still explain a failing bot
+PersonalAccessTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+// Static methods
+PersonalAccessTokenSchema.statics.hashToken = function(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+PersonalAccessTokenSchema.statics.generateToken = function(): string {
+  return PERSONAL_ACCESS_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+};
+
+PersonalAccessTokenSchema.statics.findActiveByToken = function(token: string): Promise<IPersonalAccessTokenDoc | null> {
+  return this.findOne({
+    tokenHash: this.hashToken(token),
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+// Unrevoked tokens, including recently expired ones
+PersonalAccessTokenSchema.statics.findUserTokens = function(userId: Types.ObjectId): Promise<IPersonalAccessTokenDoc[]> {
+  return this.find({ userId, revokedAt: null })
+    .sort({ createdAt: -1 })
+    .exec();
+};
+
+PersonalAccessTokenSchema.statics.revokeUserTokens = function(userId: Types.ObjectId): Promise<any> {
+  return this.updateMany({ userId, revokedAt: null }, { $set: { revokedAt: new Date() } });
+};
+
+export const PersonalAccessToken = (mongoose.models.PersonalAccessToken as IPersonalAccessTokenModel) || mongoose.model<IPersonalAccessTokenDoc, IPersonalAccessTokenModel>('PersonalAccessToken', PersonalAccessTokenSchema);
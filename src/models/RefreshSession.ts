@@ -0,0 +1,150 @@
+import mongoose, { Schema, Model, Document, Types } from 'mongoose';
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'reuse_detected'
+  | 'password_changed'
+  | 'revoked_by_user'
+  | 'user_deleted'
+  | 'user_suspended';
+
+export interface IRefreshSession {
+  userId: Types.ObjectId;
+  familyId: string; // stable id for every refresh token descended from one login
+  currentTokenId: string; // jti of the only refresh token that may still be used
+  userAgent?: string;
+  ip?: string;
+  deviceId?: string;
+  platform?: 'ios' | 'android' | 'web';
+  appVersion?: string;
+  lastUsedAt: Date; // last sign-in or refresh on this session
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokeReason | null;
+}
+
+export interface IRefreshSessionDoc extends Document, IRefreshSession {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive(): boolean;
+  revoke(reason: SessionRevokeReason): Promise<void>;
+}
+
+export interface IRefreshSessionModel extends Model<IRefreshSessionDoc> {
+  findByFamily(familyId: string): Promise<IRefreshSessionDoc | null>;
+  findActiveUserSessions(userId: Types.ObjectId): Promise<IRefreshSessionDoc[]>;
+  rotate(familyId: string, fromTokenId: string, toTokenId: string, expiresAt: Date): Promise<IRefreshSessionDoc | null>;
+  revokeFamily(familyId: string, reason: SessionRevokeReason): Promise<any>;
+  revokeUserSessions(userId: Types.ObjectId, reason: SessionRevokeReason, exceptFamilyId?: string): Promise<any>;
+}
+
+const RefreshSessionSchema = new Schema<IRefreshSessionDoc, IRefreshSessionModel>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  familyId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  currentTokenId: { type: String, required: true },
+  userAgent: { type: String, maxlength: 500 },
+  ip: { type: String },
+  deviceId: { type: String },
+  platform: { type: String, enum: ['ios', 'android', 'web'] },
+  appVersion: { type: String, maxlength: 50 },
+  lastUsedAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, required: true },
+  revokedAt: { type: Date, default: null },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'reuse_detected', 'password_changed', 'revoked_by_user', 'user_deleted', 'user_suspended', null],
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+RefreshSessionSchema.index({ userId: 1, revokedAt: 1 });
+// Revoked sessions are kept until they would have expired anyway so a replayed
+// token is still recognised as belonging to a known (and now dead) family.
+RefreshSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Instance methods
+RefreshSessionSchema.methods.isActive = function(): boolean {
+  return !this.revokedAt && this.expiresAt.getTime() > Date.now();
+};
+
+RefreshSessionSchema.methods.revoke = async function(reason: SessionRevokeReason): Promise<void> {
+  if (!this.revokedAt) {
+    this.revokedAt = new Date();
+    this.revokedReason = reason;
+    await this.save();
+  }
+};
+
+// Static methods
+RefreshSessionSchema.statics.findByFamily = function(familyId: string): Promise<IRefreshSessionDoc | null> {
+  return this.findOne({ familyId });
+};
+
+RefreshSessionSchema.statics.findActiveUserSessions = function(userId: Types.ObjectId): Promise<IRefreshSessionDoc[]> {
+  return this.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+    .sort({ lastUsedAt: -1 })
+    .lean();
+};
+
+// Atomically swaps the current token id; returns null when `fromTokenId` is no
+// longer the current one (already rotated, revoked or expired).
+RefreshSessionSchema.statics.rotate = function(
+  familyId: string,
+  fromTokenId: string,
+  toTokenId: string,
+  expiresAt: Date
+): Promise<IRefreshSessionDoc | null> {
+  return this.findOneAndUpdate(
+    {
+      familyId,
+      currentTokenId: fromTokenId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() }
+    },
+    {
+      $set: {
+        currentTokenId: toTokenId,
+        lastUsedAt: new Date(),
+        expiresAt
+      }
+    },
+    { new: true }
+  );
+};
+
+RefreshSessionSchema.statics.revokeFamily = function(familyId: string, reason: SessionRevokeReason): Promise<any> {
+  return this.updateOne(
+    { familyId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+};
+
+RefreshSessionSchema.statics.revokeUserSessions = function(
+  userId: Types.ObjectId,
+  reason: SessionRevokeReason,
+  exceptFamilyId?: string
+): Promise<any> {
+  const query: any = { userId, revokedAt: null };
+
+  if (exceptFamilyId) {
+    query.familyId = { $ne: exceptFamilyId };
+  }
+
+  return this.updateMany(query, { revokedAt: new Date(), revokedReason: reason });
+};
+
+export const RefreshSession = (mongoose.models.RefreshSession as IRefreshSessionModel) || mongoose.model<IRefreshSessionDoc, IRefreshSessionModel>('RefreshSession', RefreshSessionSchema);
@@ -5,6 +5,7 @@ export interface IThread {
   participants: Types.ObjectId[];
   lastMessageAt?: Date;
   unreadCounts: Map<string, number>; // userId -> count
+  lastReadAt: Map<string, Date>; // userId -> when they last read the thread
   isGroup: boolean;
   title?: string;
   convoyId?: Types.ObjectId;
@@ -15,7 +16,7 @@ export interface IThreadDoc extends Document, IThread {
   _id: Types.ObjectId;
   addParticipant(userId: Types.ObjectId): Promise<void>;
   removeParticipant(userId: Types.ObjectId): Promise<void>;
-  markAsRead(userId: Types.ObjectId): Promise<void>;
+  markAsRead(userId: Types.ObjectId, readAt?: Date): Promise<void>;
   incrementUnread(userId: Types.ObjectId): Promise<void>;
   updateLastMessage(): Promise<void>;
 }
@@ -43,6 +44,11 @@ const ThreadSchema = new Schema<IThreadDoc, IThreadModel, IThreadDoc, IThreadQue
     of: Number,
     default: new Map()
   },
+  lastReadAt: {
+    type: Map,
+    of: Date,
+    default: new Map()
+  },
   isGroup: { type: Boolean, default: false },
   title: { type: String, maxlength: 100 },
   convoyId: { type: Schema.Types.ObjectId, ref: 'Convoy' },
@@ -80,8 +86,9 @@ ThreadSchema.methods.removeParticipant = async function(userId: Types.ObjectId):
   await this.save();
 };
 
-ThreadSchema.methods.markAsRead = async function(userId: Types.ObjectId): Promise<void> {
+ThreadSchema.methods.markAsRead = async function(userId: Types.ObjectId, readAt: Date = new Date()): Promise<void> {
   this.unreadCounts.set(userId.toString(), 0);
+  this.lastReadAt.set(userId.toString(), readAt);
   await this.save();
 };
 
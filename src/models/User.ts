@@ -1,17 +1,47 @@
 import mongoose, { Schema, Model, Document, Types } from 'mongoose';
 import type { QueryWithHelpers } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { geoPointFields, geoPointJson, toGeoPoint, type GeoPoint } from './geo.js';
+
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+const roleRank: Record<UserRole, number> = { user: 0, moderator: 1, admin: 2 };
+
+// True when `userRole` is at least `role`
+export function hasRole(userRole: UserRole, role: UserRole): boolean {
+  return roleRank[userRole] >= roleRank[role];
+}
+
+// Turns a partial settings object into dotted `$set` paths, so settings left
+// out of an update keep their stored values instead of being replaced
+export function settingsPaths(settings: object, prefix = 'settings'): Record<string, unknown> {
+  const paths: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(settings)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      Object.assign(paths, settingsPaths(value, `${prefix}.${key}`));
+    } else {
+      paths[`${prefix}.${key}`] = value;
+    }
+  }
+  return paths;
+}
 
 export interface IUser {
   email: string;
   username: string;
   passwordHash: string;
+  role: UserRole;
+  emailVerifiedAt?: Date | null;
   avatarUrl?: string;
   bio?: string;
   settings: {
     showConvoys: 'everyone' | 'friends' | 'private';
     showStats: 'everyone' | 'friends' | 'private';
     showProfile: 'everyone' | 'friends' | 'private';
+    hideOnlineStatus: boolean; // friends see the user as offline
     notifications: {
       convoyInvites: boolean;
       friendRequests: boolean;
@@ -22,9 +52,7 @@ export interface IUser {
   friends: Types.ObjectId[];
   blocked: Types.ObjectId[];
   lastSeenAt: Date;
-  location?: {
-    lat: number;
-    lng: number;
+  location?: GeoPoint & {
     heading?: number;
     speed?: number;
     updatedAt: Date;
@@ -36,12 +64,32 @@ export interface IUser {
     totalMiles: number;
     friendsCount: number;
   };
-  deletedAt?: Date | null;
+  identities: Array<{
+    provider: string; // OIDC provider name, e.g. 'google', 'apple', 'firebase'
+    subject: string; // the provider's stable `sub` claim
+    linkedAt: Date;
+  }>;
+  twoFactor: {
+    enabled: boolean;
+    secret?: string | null;
+    pendingSecret?: string | null; // set during enrolment until the first code is confirmed
+    recoveryCodeHashes: string[];
+    lastUsedStep?: number | null; // last accepted TOTP time step, to reject replays
+    enabledAt?: Date | null;
+  };
+  usernameChangedAt?: Date | null; // last rename, for the change cooldown
+  suspendedAt?: Date | null;
+  suspendedUntil?: Date | null; // null while suspended means indefinitely
+  suspensionReason?: string | null;
+  suspendedBy?: Types.ObjectId | null;
+  deletionScheduledFor?: Date | null; // set by DELETE /me; signing in before then cancels it
+  deletedAt?: Date | null; // set when the purge starts, just before the document is removed
 }
 
 export interface IUserDoc extends Document, IUser {
   _id: Types.ObjectId;
   comparePassword(candidatePassword: string): Promise<boolean>;
+  isSuspended(): boolean;
   updateLastSeen(): Promise<void>;
   addFriend(friendId: Types.ObjectId): Promise<void>;
   removeFriend(friendId: Types.ObjectId): Promise<void>;
@@ -57,17 +105,17 @@ export interface IUserQueryHelpers {
 export interface IUserModel extends Model<IUserDoc, IUserQueryHelpers> {
   findByEmail(email: string): Promise<IUserDoc | null>;
   findByUsername(username: string): Promise<IUserDoc | null>;
+  findByIdentity(provider: string, subject: string): Promise<IUserDoc | null>;
   searchUsers(query: string, excludeIds?: Types.ObjectId[], limit?: number): Promise<IUserDoc[]>;
   hashPassword(password: string): Promise<string>;
 }
 
 const LocationSchema = new Schema({
-  lat: { type: Number, required: true },
-  lng: { type: Number, required: true },
+  ...geoPointFields,
   heading: { type: Number, min: 0, max: 360 },
   speed: { type: Number, min: 0 },
   updatedAt: { type: Date, default: Date.now }
-}, { _id: false });
+}, { _id: false, toJSON: geoPointJson });
 
 const SettingsSchema = new Schema({
   showConvoys: { 
@@ -85,6 +133,7 @@ const SettingsSchema = new Schema({
     enum: ['everyone', 'friends', 'private'], 
     default: 'everyone' 
   },
+  hideOnlineStatus: { type: Boolean, default: false },
   notifications: {
     convoyInvites: { type: Boolean, default: true },
     friendRequests: { type: Boolean, default: true },
@@ -100,6 +149,22 @@ const StatsSchema = new Schema({
   friendsCount: { type: Number, default: 0 }
 }, { _id: false });
 
+const IdentitySchema = new Schema({
+  provider: { type: String, required: true },
+  subject: { type: String, required: true },
+  linkedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const TwoFactorSchema = new Schema({
+  enabled: { type: Boolean, default: false },
+  // Secrets are never loaded unless explicitly selected, so lean profile reads can't leak them
+  secret: { type: String, default: null, select: false },
+  pendingSecret: { type: String, default: null, select: false },
+  recoveryCodeHashes: { type: [String], select: false },
+  lastUsedStep: { type: Number, default: null },
+  enabledAt: { type: Date, default: null }
+}, { _id: false });
+
 const UserSchema = new Schema<IUserDoc, IUserModel, IUserDoc, IUserQueryHelpers>({
   email: { 
     type: String, 
@@ -120,6 +185,13 @@ const UserSchema = new Schema<IUserDoc, IUserModel, IUserDoc, IUserQueryHelpers>
     index: { collation: { locale: 'en', strength: 2 } }
   },
   passwordHash: { type: String, required: true },
+  role: {
+    type: String,
+    enum: ['user', 'moderator', 'admin'],
+    default: 'user',
+    index: true
+  },
+  emailVerifiedAt: { type: Date, default: null },
   avatarUrl: { type: String },
   bio: { type: String, maxlength: 500 },
   settings: { type: SettingsSchema, default: () => ({}) },
@@ -129,6 +201,14 @@ const UserSchema = new Schema<IUserDoc, IUserModel, IUserDoc, IUserQueryHelpers>
   location: { type: LocationSchema },
   deviceTokens: [{ type: String }],
   stats: { type: StatsSchema, default: () => ({}) },
+  identities: [IdentitySchema],
+  twoFactor: { type: TwoFactorSchema, default: () => ({}) },
+  usernameChangedAt: { type: Date, default: null },
+  suspendedAt: { type: Date, default: null },
+  suspendedUntil: { type: Date, default: null },
+  suspensionReason: { type: String, maxlength: 500, default: null },
+  suspendedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  deletionScheduledFor: { type: Date, default: null },
   deletedAt: { type: Date, default: null }
 }, {
   timestamps: true,
@@ -136,6 +216,9 @@ const UserSchema = new Schema<IUserDoc, IUserModel, IUserDoc, IUserQueryHelpers>
     transform: function(_doc, ret: any) {
       if ('passwordHash' in ret) delete ret.passwordHash;
       if ('deviceTokens' in ret) delete ret.deviceTokens;
+      if (ret.twoFactor) {
+        ret.twoFactor = { enabled: ret.twoFactor.enabled, enabledAt: ret.twoFactor.enabledAt };
+      }
       return ret;
     }
   }
@@ -143,7 +226,10 @@ const UserSchema = new Schema<IUserDoc, IUserModel, IUserDoc, IUserQueryHelpers>
 
 // Indexes for performance
 UserSchema.index({ 'location.updatedAt': -1 });
+// The location 2dsphere index is built by migrate:geojson; see Convoy
 UserSchema.index({ lastSeenAt: -1 });
+UserSchema.index({ 'identities.provider': 1, 'identities.subject': 1 }, { unique: true, sparse: true });
+UserSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
 
 // Query helpers
 UserSchema.query.notDeleted = function() {
@@ -155,6 +241,10 @@ UserSchema.methods.comparePassword = async function(candidatePassword: string):
   return bcrypt.compare(candidatePassword, this.passwordHash);
 };
 
+UserSchema.methods.isSuspended = function(): boolean {
+  return Boolean(this.suspendedAt) && (!this.suspendedUntil || this.suspendedUntil > new Date());
+};
+
 UserSchema.methods.updateLastSeen = async function() {
   this.lastSeenAt = new Date();
   await this.save();
@@ -188,8 +278,7 @@ UserSchema.methods.unblockUser = async function(userId: Types.ObjectId) {
 
 UserSchema.methods.updateLocation = async function(lat: number, lng: number, heading?: number, speed?: number) {
   this.location = {
-    lat,
-    lng,
+    ...toGeoPoint(lat, lng),
     updatedAt: new Date(),
     ...(heading != null ? { heading } : {}),
     ...(speed != null ? { speed } : {})
@@ -211,6 +300,13 @@ UserSchema.statics.findByUsername = function(username: string) {
   return this.findOne({ username: username.toLowerCase(), deletedAt: null });
 };
 
+UserSchema.statics.findByIdentity = function(provider: string, subject: string) {
+  return this.findOne({
+    identities: { $elemMatch: { provider, subject } },
+    deletedAt: null
+  });
+};
+
 UserSchema.statics.searchUsers = function(query: string, excludeIds: Types.ObjectId[] = [], limit = 20) {
   const regex = new RegExp(query, 'i');
   return this.find({
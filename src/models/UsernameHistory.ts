@@ -0,0 +1,64 @@
+import mongoose, { Schema, Model, Document, Types } from 'mongoose';
+
+export interface IUsernameHistory {
+  userId: Types.ObjectId;
+  username: string; // the name given up, lowercase
+  changedAt: Date;
+  reservedUntil: Date; // only the previous owner may claim the name until then
+}
+
+export interface IUsernameHistoryDoc extends Document, IUsernameHistory {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IUsernameHistoryModel extends Model<IUsernameHistoryDoc> {
+  findReservation(username: string, exceptUserId?: Types.ObjectId): Promise<IUsernameHistoryDoc | null>;
+  findLatestByUsername(username: string): Promise<IUsernameHistoryDoc | null>;
+  findUserHistory(userId: Types.ObjectId): Promise<IUsernameHistoryDoc[]>;
+}
+
+const UsernameHistorySchema = new Schema<IUsernameHistoryDoc, IUsernameHistoryModel>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  username: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  changedAt: { type: Date, required: true },
+  reservedUntil: { type: Date, required: true }
+}, {
+  timestamps: true
+});
+
+// Indexes
+UsernameHistorySchema.index({ username: 1, changedAt: -1 });
+
+// Static methods
+
+// An unexpired hold on the name by someone other than `exceptUserId`
+UsernameHistorySchema.statics.findReservation = function(username: string, exceptUserId?: Types.ObjectId) {
+  return this.findOne({
+    username: username.toLowerCase(),
+    reservedUntil: { $gt: new Date() },
+    ...(exceptUserId ? { userId: { $ne: exceptUserId } } : {})
+  });
+};
+
+// The account that most recently gave the name up
+UsernameHistorySchema.statics.findLatestByUsername = function(username: string) {
+  return this.findOne({ username: username.toLowerCase() }).sort({ changedAt: -1 });
+};
+
+UsernameHistorySchema.statics.findUserHistory = function(userId: Types.ObjectId) {
+  return this.find({ userId }).sort({ changedAt: -1 });
+};
+
+export const UsernameHistory = (mongoose.models.UsernameHistory as IUsernameHistoryModel) || mongoose.model<IUsernameHistoryDoc, IUsernameHistoryModel>('UsernameHistory', UsernameHistorySchema);
@@ -0,0 +1,45 @@
+// GeoJSON Point. Coordinates are [longitude, latitude], in that order.
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+// Schema fields shared by located subdocuments, which are GeoJSON points with
+// extra members (heading, speed, ...) so they can carry a 2dsphere index
+export const geoPointFields = {
+  type: { type: String, enum: ['Point'], default: 'Point', required: true },
+  coordinates: {
+    type: [Number],
+    required: true,
+    validate: {
+      validator: ([lng, lat, ...rest]: number[]) =>
+        rest.length === 0 && lng !== undefined && lat !== undefined &&
+        lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90,
+      message: 'Coordinates must be [lng, lat]'
+    }
+  }
+};
+
+export function toGeoPoint(lat: number, lng: number): GeoPoint {
+  return { type: 'Point', coordinates: [lng, lat] };
+}
+
+export function latLngOf(point: GeoPoint): { lat: number; lng: number } {
+  const [lng, lat] = point.coordinates;
+  return { lat, lng };
+}
+
+// A located subdocument as clients see it: `{ lat, lng, ...extra }`, the same
+// shape requests and socket events use. GeoJSON is only how it is stored.
+export type ClientLocation<T extends GeoPoint> = Omit<T, 'type' | 'coordinates'> & { lat: number; lng: number };
+
+export function toClientLocation<T extends GeoPoint>(point: T): ClientLocation<T> {
+  const { type, coordinates, ...extra } = point;
+  return { ...extra, ...latLngOf({ type, coordinates }) };
+}
+
+// toJSON option for located subdocument schemas; lean and aggregate results
+// skip it and need toClientLocation instead
+export const geoPointJson = {
+  transform: (_doc: unknown, ret: any) => toClientLocation(ret)
+};
@@ -0,0 +1,215 @@
+import express from 'express';
+import { z } from 'zod';
+import { adminService } from '../services/adminService.js';
+import { requireAuth, requireSession, requireRole, type AuthenticatedRequest } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Validation schemas
+const searchUsersSchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  role: z.enum(['user', 'moderator', 'admin']).optional(),
+  suspended: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  offset: z.coerce.number().min(0).default(0)
+});
+
+const suspendUserSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(500, 'Reason must be less than 500 characters'),
+  until: z.coerce.date().optional()
+});
+
+const setRoleSchema = z.object({
+  role: z.enum(['user', 'moderator', 'admin'])
+});
+
+function getActor(req: AuthenticatedRequest) {
+  return { id: req.user!.id, role: req.user!.role };
+}
+
+function sendAdminError(res: express.Response, error: any, fallbackMessage: string) {
+  if (error.name === 'ZodError') {
+    return res.status(400).json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid input data',
+        details: error.errors
+      }
+    });
+  }
+
+  const knownErrors: Record<string, { status: number; code: string }> = {
+    'User not found': { status: 404, code: 'USER_NOT_FOUND' },
+    'Convoy not found': { status: 404, code: 'CONVOY_NOT_FOUND' },
+    'Message not found': { status: 404, code: 'MESSAGE_NOT_FOUND' },
+    'Convoy is not live': { status: 409, code: 'CONVOY_NOT_LIVE' },
+    'Suspension end must be in the future': { status: 400, code: 'INVALID_SUSPENSION_END' },
+    'Insufficient privileges for this user': { status: 403, code: 'FORBIDDEN' }
+  };
+
+  const known = knownErrors[error.message];
+  if (known) {
+    return res.status(known.status).json({
+      error: {
+        code: known.code,
+        message: error.message
+      }
+    });
+  }
+
+  res.status(500).json({
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+// GET /admin/stats
+router.get('/stats', requireAuth, requireSession, requireRole('moderator'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const stats = await adminService.getStats();
+
+    res.json({
+      success: true,
+      data: stats
+    });
+  } catch (error: any) {
+    sendAdminError(res, error, 'Failed to fetch platform stats');
+  }
+});
+
+// GET /admin/users
+router.get('/users', requireAuth, requireSession, requireRole('moderator'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const search = searchUsersSchema.parse(req.query);
+
+    const { users, total } = await adminService.searchUsers(search);
+
+    res.json({
+      success: true,
+      data: {
+        users,
+        pagination: {
+          limit: search.limit,
+          offset: search.offset,
+          total,
+          hasMore: search.offset + users.length < total
+        }
+      }
+    });
+  } catch (error: any) {
+    sendAdminError(res, error, 'Failed to search users');
+  }
+});
+
+// GET /admin/users/:id
+router.get('/users/:id', requireAuth, requireSession, requireRole('moderator'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const user = await adminService.getUser(id!);
+
+    res.json({
+      success: true,
+      data: user
+    });
+  } catch (error: any) {
+    sendAdminError(res, error, 'Failed to fetch user');
+  }
+});
+
+// POST /admin/users/:id/suspend
+router.post('/users/:id/suspend', requireAuth, requireSession, requireRole('moderator'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { reason, until } = suspendUserSchema.parse(req.body);
+
+    const user = await adminService.suspendUser(getActor(req), id!, reason, until);
+
+    res.json({
+      success: true,
+      data: user
+    });
+  } catch (error: any) {
+    sendAdminError(res, error, 'Failed to suspend user');
+  }
+});
+
+// POST /admin/users/:id/unsuspend
+router.post('/users/:id/unsuspend', requireAuth, requireSession, requireRole('moderator'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const user = await adminService.unsuspendUser(getActor(req), id!);
+
+    res.json({
+      success: true,
+      data: user
+    });
+  } catch (error: any) {
+    sendAdminError(res, error, 'Failed to unsuspend user');
+  }
+});
+
+// PATCH /admin/users/:id/role
+router.patch('/users/:id/role', requireAuth, requireSession, requireRole('admin'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { role } = setRoleSchema.parse(req.body);
+
+    const user = await adminService.setRole(getActor(req), id!, role);
+
+    res.json({
+      success: true,
+      data: user
+    });
+  } catch (error: any) {
+    sendAdminError(res, error, 'Failed to change role');
+  }
+});
+
+// POST /admin/convoys/:id/end
+router.post('/convoys/:id/end', requireAuth, requireSession, requireRole('moderator'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const convoy = await adminService.endConvoy(req.user!.id, id!);
+
+    res.json({
+      success: true,
+      data: convoy
+    });
+  } catch (error: any) {
+    sendAdminError(res, error, 'Failed to end convoy');
+  }
+});
+
+// DELETE /admin/convoys/:id
+router.delete('/convoys/:id', requireAuth, requireSession, requireRole('moderator'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    await adminService.takeDownConvoy(req.user!.id, id!);
+
+    res.json({
+      success: true,
+      message: 'Convoy taken down successfully'
+    });
+  } catch (error: any) {
+    sendAdminError(res, error, 'Failed to take down convoy');
+  }
+});
+
+// DELETE /admin/messages/:id
+router.delete('/messages/:id', requireAuth, requireSession, requireRole('moderator'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    await adminService.deleteMessage(req.user!.id, id!);
+
+    res.json({
+      success: true,
+      message: 'Message deleted successfully'
+    });
+  } catch (error: any) {
+    sendAdminError(res, error, 'Failed to delete message');
+  }
+});
+
+export default router;
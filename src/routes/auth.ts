@@ -1,20 +1,91 @@
 import express from 'express';
 import { z } from 'zod';
 import { authService } from '../services/authService.js';
-import { requireAuth, type AuthenticatedRequest } from '../middleware/auth.js';
+import { emailVerificationService } from '../services/emailVerificationService.js';
+import { twoFactorService } from '../services/twoFactorService.js';
+import { passwordPolicy } from '../services/passwordPolicy.js';
+import { User } from '../models/User.js';
+import { requireAuth, requireSession, type AuthenticatedRequest } from '../middleware/auth.js';
+import type { SessionContext } from '../types/auth.js';
 
 const router = express.Router();
 
+// Device details recorded on the refresh session created at sign-in. Mobile
+// clients identify themselves with X-Device-Id / X-Platform / X-App-Version;
+// the device id matches the one sent when registering a push token.
+function getSessionContext(req: express.Request): SessionContext {
+  const platform = req.get('x-platform');
+  return {
+    userAgent: req.get('user-agent'),
+    ip: req.ip,
+    deviceId: req.get('x-device-id')?.slice(0, 200),
+    platform: platform === 'ios' || platform === 'android' || platform === 'web' ? platform : undefined,
+    appVersion: req.get('x-app-version')?.slice(0, 50)
+  };
+}
+
+// Responds for login throttling errors; returns false for anything else
+function sendLoginThrottleError(res: express.Response, error: any): boolean {
+  if (error.message !== 'Account locked' && error.message !== 'Too many login attempts') {
+    return false;
+  }
+
+  const locked = error.message === 'Account locked';
+  res.set('Retry-After', String(error.retryAfter));
+  res.status(locked ? 423 : 429).json({
+    error: {
+      code: locked ? 'ACCOUNT_LOCKED' : 'TOO_MANY_LOGIN_ATTEMPTS',
+      message: locked
+        ? 'Account temporarily locked after repeated failed sign-in attempts'
+        : 'Too many sign-in attempts, please try again later',
+      retryAfter: error.retryAfter
+    }
+  });
+  return true;
+}
+
+// Responds for sign-ins and refreshes of suspended accounts; returns false for anything else
+function sendAccountSuspendedError(res: express.Response, error: any): boolean {
+  if (error.message !== 'Account suspended') {
+    return false;
+  }
+
+  res.status(403).json({
+    error: {
+      code: 'ACCOUNT_SUSPENDED',
+      message: 'This account has been suspended'
+    }
+  });
+  return true;
+}
+
+// Responds for new passwords rejected by the password policy; returns false for anything else
+function sendPasswordPolicyError(res: express.Response, error: any): boolean {
+  if (error.message !== 'Password does not meet requirements') {
+    return false;
+  }
+
+  res.status(400).json({
+    error: {
+      code: 'WEAK_PASSWORD',
+      message: error.message,
+      details: error.rejections
+    }
+  });
+  return true;
+}
+
 // Validation schemas
+// New passwords are only bounded here; the strength rules live in passwordPolicy
+const passwordSchema = z.string().min(1, 'Password is required').max(1024, 'Password is too long');
+
 const registerSchema = z.object({
   email: z.string().email('Invalid email format'),
   username: z.string()
     .min(3, 'Username must be at least 3 characters')
     .max(30, 'Username must be less than 30 characters')
     .regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores'),
-  password: z.string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one lowercase letter, one uppercase letter, and one number')
+  password: passwordSchema
 });
 
 const loginSchema = z.object({
@@ -22,27 +93,76 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required')
 });
 
+const oidcLoginSchema = z.object({
+  provider: z.string().min(1, 'Provider is required'),
+  idToken: z.string().min(1, 'ID token is required'),
+  // Only used when a new account is created
+  username: z.string()
+    .min(3, 'Username must be at least 3 characters')
+    .max(30, 'Username must be less than 30 characters')
+    .regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores')
+    .optional()
+});
+
+const mfaLoginSchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+  code: z.string().min(1, 'Two-factor code is required')
+});
+
+const magicLinkRequestSchema = z.object({
+  email: z.string().email('Invalid email format')
+});
+
+const magicLinkVerifySchema = z.union([
+  z.object({ token: z.string().min(1, 'Login token is required') }),
+  z.object({
+    email: z.string().email('Invalid email format'),
+    code: z.string().regex(/^\d{6}$/, 'Login code must be 6 digits')
+  })
+]);
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, 'Two-factor code is required')
+});
+
+const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().min(1, 'Two-factor code is required')
+});
+
 const refreshSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required')
 });
 
 const changePasswordSchema = z.object({
   currentPassword: z.string().min(1, 'Current password is required'),
-  newPassword: z.string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one lowercase letter, one uppercase letter, and one number')
+  newPassword: passwordSchema,
+  code: z.string().optional() // required when 2FA is enabled
 });
 
 const resetPasswordSchema = z.object({
   email: z.string().email('Invalid email format')
 });
 
+const verifyEmailSchema = z.union([
+  z.object({ token: z.string().min(1, 'Verification token is required') }),
+  z.object({
+    email: z.string().email('Invalid email format'),
+    code: z.string().regex(/^\d{6}$/, 'Verification code must be 6 digits')
+  })
+]);
+
+const confirmResetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  newPassword: passwordSchema
+});
+
 // POST /auth/register
 router.post('/register', async (req, res) => {
   try {
     const { email, username, password } = registerSchema.parse(req.body);
     
-    const result = await authService.register(email, username, password);
+    const result = await authService.register(email, username, password, getSessionContext(req));
     
     res.status(201).json({
       success: true,
@@ -68,6 +188,10 @@ router.post('/register', async (req, res) => {
       });
     }
 
+    if (sendPasswordPolicyError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -82,7 +206,8 @@ router.post('/login', async (req, res) => {
   try {
     const { emailOrUsername, password } = loginSchema.parse(req.body);
     
-    const result = await authService.login(emailOrUsername, password);
+    // Either an AuthResult or, for 2FA accounts, an MFA challenge for POST /auth/login/mfa
+    const result = await authService.login(emailOrUsername, password, getSessionContext(req));
     
     res.json({
       success: true,
@@ -99,6 +224,10 @@ router.post('/login', async (req, res) => {
       });
     }
 
+    if (sendLoginThrottleError(res, error)) {
+      return;
+    }
+
     if (error.message === 'Invalid credentials') {
       return res.status(401).json({
         error: {
@@ -108,6 +237,213 @@ router.post('/login', async (req, res) => {
       });
     }
 
+    if (sendAccountSuspendedError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Login failed'
+      }
+    });
+  }
+});
+
+// POST /auth/oidc
+router.post('/oidc', async (req, res) => {
+  try {
+    const { provider, idToken, username } = oidcLoginSchema.parse(req.body);
+
+    const result = await authService.loginWithOidc(provider, idToken, getSessionContext(req), username);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
+        }
+      });
+    }
+
+    if (error.message === 'Unknown identity provider') {
+      return res.status(400).json({
+        error: {
+          code: 'UNKNOWN_PROVIDER',
+          message: 'Identity provider is not configured'
+        }
+      });
+    }
+
+    if (error.message === 'Invalid ID token' || error.message === 'ID token has no email') {
+      return res.status(401).json({
+        error: {
+          code: 'INVALID_ID_TOKEN',
+          message: error.message
+        }
+      });
+    }
+
+    if (error.message === 'ID token email not verified') {
+      return res.status(403).json({
+        error: {
+          code: 'EMAIL_NOT_VERIFIED',
+          message: 'Verify this email address with your identity provider, or register with a password'
+        }
+      });
+    }
+
+    if (sendAccountSuspendedError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Login failed'
+      }
+    });
+  }
+});
+
+// POST /auth/login/mfa
+router.post('/login/mfa', async (req, res) => {
+  try {
+    const { mfaToken, code } = mfaLoginSchema.parse(req.body);
+
+    const result = await authService.completeMfaLogin(mfaToken, code, getSessionContext(req));
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
+        }
+      });
+    }
+
+    if (sendLoginThrottleError(res, error)) {
+      return;
+    }
+
+    if (error.message === 'Invalid MFA challenge') {
+      return res.status(401).json({
+        error: {
+          code: 'INVALID_MFA_CHALLENGE',
+          message: 'MFA challenge is invalid or has expired; please sign in again'
+        }
+      });
+    }
+
+    if (error.message === 'Invalid two-factor code') {
+      return res.status(401).json({
+        error: {
+          code: 'INVALID_TWO_FACTOR_CODE',
+          message: 'Invalid two-factor code'
+        }
+      });
+    }
+
+    if (sendAccountSuspendedError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Login failed'
+      }
+    });
+  }
+});
+
+// POST /auth/magic
+router.post('/magic', async (req, res) => {
+  try {
+    const { email } = magicLinkRequestSchema.parse(req.body);
+
+    await authService.requestMagicLink(email);
+
+    // Always return success to prevent email enumeration
+    res.json({
+      success: true,
+      message: 'If the email exists, a sign-in link has been sent'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
+        }
+      });
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Sign-in link request failed'
+      }
+    });
+  }
+});
+
+// POST /auth/magic/verify
+router.post('/magic/verify', async (req, res) => {
+  try {
+    const body = magicLinkVerifySchema.parse(req.body);
+    const context = getSessionContext(req);
+
+    // Same shape as POST /auth/login, including the MFA challenge for 2FA accounts
+    const result = 'token' in body
+      ? await authService.loginWithMagicLink(body.token, context)
+      : await authService.loginWithMagicCode(body.email, body.code, context);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
+        }
+      });
+    }
+
+    if (sendLoginThrottleError(res, error)) {
+      return;
+    }
+
+    if (error.message === 'Invalid or expired login link' || error.message === 'Invalid or expired login code') {
+      return res.status(401).json({
+        error: {
+          code: 'INVALID_MAGIC_LINK',
+          message: 'Sign-in link or code is invalid or has expired'
+        }
+      });
+    }
+
+    if (sendAccountSuspendedError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -148,6 +484,19 @@ router.post('/refresh', async (req, res) => {
       });
     }
 
+    if (error.message === 'Refresh token reuse detected') {
+      return res.status(401).json({
+        error: {
+          code: 'REFRESH_TOKEN_REUSED',
+          message: 'Refresh token has already been used; please sign in again'
+        }
+      });
+    }
+
+    if (sendAccountSuspendedError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -158,11 +507,14 @@ router.post('/refresh', async (req, res) => {
 });
 
 // POST /auth/logout
-router.post('/logout', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/logout', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
   try {
-    // For now, logout is handled client-side by discarding tokens
-    // In the future, we could implement token blacklisting
-    
+    // Kill the session this access token was issued for, which also ends the
+    // access token and the session's sockets
+    if (req.userId && req.sessionId) {
+      await authService.logout(req.userId, req.sessionId);
+    }
+
     res.json({
       success: true,
       message: 'Logged out successfully'
@@ -178,9 +530,9 @@ router.post('/logout', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // POST /auth/password/change
-router.post('/password/change', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/password/change', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
   try {
-    const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+    const { currentPassword, newPassword, code } = changePasswordSchema.parse(req.body);
     
     if (!req.userId) {
       return res.status(401).json({
@@ -191,7 +543,7 @@ router.post('/password/change', requireAuth, async (req: AuthenticatedRequest, r
       });
     }
     
-    await authService.changePassword(req.userId, currentPassword, newPassword);
+    await authService.changePassword(req.userId, req.sessionId, currentPassword, newPassword, code);
     
     res.json({
       success: true,
@@ -217,6 +569,19 @@ router.post('/password/change', requireAuth, async (req: AuthenticatedRequest, r
       });
     }
 
+    if (error.message === 'Two-factor code required' || error.message === 'Invalid two-factor code') {
+      return res.status(400).json({
+        error: {
+          code: error.message === 'Two-factor code required' ? 'TWO_FACTOR_REQUIRED' : 'INVALID_TWO_FACTOR_CODE',
+          message: error.message
+        }
+      });
+    }
+
+    if (sendPasswordPolicyError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -226,6 +591,14 @@ router.post('/password/change', requireAuth, async (req: AuthenticatedRequest, r
   }
 });
 
+// GET /auth/password/policy
+router.get('/password/policy', (_req, res) => {
+  res.json({
+    success: true,
+    data: passwordPolicy.describe()
+  });
+});
+
 // POST /auth/password/reset
 router.post('/password/reset', async (req, res) => {
   try {
@@ -258,4 +631,285 @@ router.post('/password/reset', async (req, res) => {
   }
 });
 
+// POST /auth/password/reset/confirm
+router.post('/password/reset/confirm', async (req, res) => {
+  try {
+    const { token, newPassword } = confirmResetPasswordSchema.parse(req.body);
+
+    await authService.confirmPasswordReset(token, newPassword);
+
+    res.json({
+      success: true,
+      message: 'Password has been reset; please sign in again'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
+        }
+      });
+    }
+
+    if (error.message === 'Invalid or expired reset token') {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_RESET_TOKEN',
+          message: 'Reset link is invalid or has expired'
+        }
+      });
+    }
+
+    if (sendPasswordPolicyError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Password reset failed'
+      }
+    });
+  }
+});
+
+// POST /auth/email/verify
+router.post('/email/verify', async (req, res) => {
+  try {
+    const body = verifyEmailSchema.parse(req.body);
+
+    if ('token' in body) {
+      await emailVerificationService.verifyToken(body.token);
+    } else {
+      await emailVerificationService.verifyCode(body.email, body.code);
+    }
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
+        }
+      });
+    }
+
+    if (error.message === 'Invalid or expired verification') {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_VERIFICATION',
+          message: 'Verification link or code is invalid or has expired'
+        }
+      });
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Email verification failed'
+      }
+    });
+  }
+});
+
+// POST /auth/email/resend
+router.post('/email/resend', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found'
+        }
+      });
+    }
+
+    await emailVerificationService.sendVerification(user);
+
+    res.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error: any) {
+    if (error.message === 'Email already verified') {
+      return res.status(409).json({
+        error: {
+          code: 'EMAIL_ALREADY_VERIFIED',
+          message: 'Email is already verified'
+        }
+      });
+    }
+
+    if (error.message === 'Verification email throttled') {
+      res.set('Retry-After', String(error.retryAfter));
+      return res.status(429).json({
+        error: {
+          code: 'VERIFICATION_THROTTLED',
+          message: 'Please wait before requesting another verification email',
+          retryAfter: error.retryAfter
+        }
+      });
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to send verification email'
+      }
+    });
+  }
+});
+
+// Shared error mapping for the /auth/2fa routes
+function sendTwoFactorError(res: express.Response, error: any, fallbackMessage: string) {
+  if (error.name === 'ZodError') {
+    return res.status(400).json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid input data',
+        details: error.errors
+      }
+    });
+  }
+
+  const knownErrors: Record<string, { status: number; code: string }> = {
+    'Two-factor already enabled': { status: 409, code: 'TWO_FACTOR_ALREADY_ENABLED' },
+    'Two-factor not enabled': { status: 409, code: 'TWO_FACTOR_NOT_ENABLED' },
+    'No pending two-factor enrolment': { status: 400, code: 'NO_PENDING_ENROLMENT' },
+    'Invalid two-factor code': { status: 400, code: 'INVALID_TWO_FACTOR_CODE' },
+    'Current password is incorrect': { status: 400, code: 'INVALID_CURRENT_PASSWORD' },
+    'User not found': { status: 404, code: 'USER_NOT_FOUND' }
+  };
+
+  const known = knownErrors[error.message];
+  if (known) {
+    return res.status(known.status).json({
+      error: {
+        code: known.code,
+        message: error.message
+      }
+    });
+  }
+
+  res.status(500).json({
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+// POST /auth/2fa/setup
+router.post('/2fa/setup', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    // otpauthUri is meant to be rendered as a QR code by the client
+    const result = await twoFactorService.beginEnrolment(req.userId);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    sendTwoFactorError(res, error, 'Failed to start two-factor setup');
+  }
+});
+
+// POST /auth/2fa/confirm
+router.post('/2fa/confirm', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const recoveryCodes = await twoFactorService.confirmEnrolment(req.userId, code);
+
+    res.json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error: any) {
+    sendTwoFactorError(res, error, 'Failed to enable two-factor authentication');
+  }
+});
+
+// POST /auth/2fa/disable
+router.post('/2fa/disable', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { password, code } = disableTwoFactorSchema.parse(req.body);
+    await twoFactorService.disable(req.userId, password, code);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error: any) {
+    sendTwoFactorError(res, error, 'Failed to disable two-factor authentication');
+  }
+});
+
+// POST /auth/2fa/recovery-codes
+router.post('/2fa/recovery-codes', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.userId, code);
+
+    res.json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error: any) {
+    sendTwoFactorError(res, error, 'Failed to regenerate recovery codes');
+  }
+});
+
 export default router;
@@ -2,8 +2,18 @@ import express from 'express';
 import { z } from 'zod';
 import { Types } from 'mongoose';
 import { Convoy } from '../models/Convoy.js';
+import { toGeoPoint } from '../models/geo.js';
 import { User } from '../models/User.js';
-import { requireAuth, optionalAuth, type AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  requireAuth,
+  optionalAuth,
+  isVerifiedEmailRequired,
+  sendEmailNotVerified,
+  requireScope,
+  type AuthenticatedRequest
+} from '../middleware/auth.js';
+import { convoyLocationService, locationUpdateSchema } from '../services/convoyLocationService.js';
+import { realtimeService } from '../services/realtimeService.js';
 
 const router = express.Router();
 
@@ -24,21 +34,20 @@ const createConvoySchema = z.object({
     distance: z.number().min(0).optional(),
     duration: z.number().min(0).optional()
   }).optional(),
+  // Accepted as lat/lng, stored as a GeoJSON point
   currentCenter: z.object({
-    lat: z.number(),
-    lng: z.number(),
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
     heading: z.number().min(0).max(360).optional(),
     speed: z.number().min(0).optional(),
     accuracy: z.number().min(0).optional()
-  }).required()
+  }).required().transform(({ lat, lng, ...rest }) => ({ ...toGeoPoint(lat, lng), ...rest, updatedAt: new Date() }))
 });
 
-const updateLocationSchema = z.object({
-  lat: z.number(),
-  lng: z.number(),
-  heading: z.number().min(0).max(360).optional(),
-  speed: z.number().min(0).optional(),
-  accuracy: z.number().min(0).optional()
+const nearbyQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  radius: z.coerce.number().positive().max(500).default(50)
 });
 
 const joinConvoySchema = z.object({
@@ -46,21 +55,18 @@ const joinConvoySchema = z.object({
 });
 
 // GET /convoys
-router.get('/', optionalAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/', optionalAuth, requireScope('convoys:read'), async (req: AuthenticatedRequest, res) => {
   try {
-    const { limit = '50', offset = '0', lat, lng, radius = '50' } = req.query;
+    const { limit = '50', offset = '0', lat, lng } = req.query;
     const parsedLimit = Math.max(1, Math.min(100, Number(limit)));
     const parsedOffset = Math.max(0, Number(offset));
 
     let convoys;
 
     if (lat && lng) {
-      // Get nearby convoys
-      const parsedLat = Number(lat);
-      const parsedLng = Number(lng);
-      const parsedRadius = Number(radius);
-      
-      convoys = await Convoy.findNearbyConvoys(parsedLat, parsedLng, parsedRadius, parsedLimit + parsedOffset);
+      // Get nearby convoys, nearest first, each with its distanceKm
+      const near = nearbyQuerySchema.parse(req.query);
+      convoys = await Convoy.findNearbyConvoys(near.lat, near.lng, near.radius, parsedLimit + parsedOffset);
     } else {
       // Get live public convoys
       convoys = await Convoy.findLiveConvoys(parsedLimit + parsedOffset);
@@ -80,7 +86,17 @@ router.get('/', optionalAuth, async (req: AuthenticatedRequest, res) => {
         }
       }
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
+        }
+      });
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -91,7 +107,7 @@ router.get('/', optionalAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // POST /convoys
-router.post('/', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/', requireAuth, requireScope('convoys:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -105,6 +121,10 @@ router.post('/', requireAuth, async (req: AuthenticatedRequest, res) => {
     const convoyData = createConvoySchema.parse(req.body);
     const ownerId = new Types.ObjectId(req.userId);
 
+    if (convoyData.visibility === 'public' && isVerifiedEmailRequired('public_convoys') && !req.user?.emailVerified) {
+      return sendEmailNotVerified(res);
+    }
+
     // Create convoy
     const convoy = new Convoy({
       ownerId,
@@ -143,15 +163,14 @@ router.post('/', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // GET /convoys/:id
-router.get('/:id', optionalAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/:id', optionalAuth, requireScope('convoys:read'), async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
     const userId = req.userId ? new Types.ObjectId(req.userId) : null;
 
     const convoy = await Convoy.findById(id)
       .populate('ownerId', 'username avatarUrl')
-      .populate('members', 'username avatarUrl location')
-      .lean();
+      .populate('members', 'username avatarUrl location');
 
     if (!convoy) {
       return res.status(404).json({
@@ -187,7 +206,7 @@ router.get('/:id', optionalAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // PATCH /convoys/:id
-router.patch('/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.patch('/:id', requireAuth, requireScope('convoys:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -222,6 +241,15 @@ router.patch('/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
       });
     }
 
+    if (
+      updates.visibility === 'public' &&
+      convoy.visibility !== 'public' &&
+      isVerifiedEmailRequired('public_convoys') &&
+      !req.user?.emailVerified
+    ) {
+      return sendEmailNotVerified(res);
+    }
+
     // Update convoy
     Object.assign(convoy, updates);
     await convoy.save();
@@ -251,7 +279,7 @@ router.patch('/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // POST /convoys/:id/join
-router.post('/:id/join', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/:id/join', requireAuth, requireScope('convoys:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -360,7 +388,7 @@ router.post('/:id/join', requireAuth, async (req: AuthenticatedRequest, res) =>
 });
 
 // POST /convoys/:id/leave
-router.post('/:id/leave', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/:id/leave', requireAuth, requireScope('convoys:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -396,6 +424,7 @@ router.post('/:id/leave', requireAuth, async (req: AuthenticatedRequest, res) =>
 
     // Remove user from convoy
     await convoy.removeMember(userId);
+    realtimeService.removeFromConvoy(req.userId, id!);
 
     // If convoy becomes empty, end it
     if (convoy.members.length === 0) {
@@ -417,7 +446,7 @@ router.post('/:id/leave', requireAuth, async (req: AuthenticatedRequest, res) =>
 });
 
 // POST /convoys/:id/start
-router.post('/:id/start', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/:id/start', requireAuth, requireScope('convoys:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -470,7 +499,7 @@ router.post('/:id/start', requireAuth, async (req: AuthenticatedRequest, res) =>
 });
 
 // POST /convoys/:id/end
-router.post('/:id/end', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/:id/end', requireAuth, requireScope('convoys:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -523,7 +552,7 @@ router.post('/:id/end', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // POST /convoys/:id/location
-router.post('/:id/location', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/:id/location', requireAuth, requireScope('convoys:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -535,48 +564,9 @@ router.post('/:id/location', requireAuth, async (req: AuthenticatedRequest, res)
     }
 
     const { id } = req.params;
-    const locationData = updateLocationSchema.parse(req.body);
-    const userId = new Types.ObjectId(req.userId);
+    const locationData = locationUpdateSchema.parse(req.body);
 
-    const convoy = await Convoy.findById(id);
-    if (!convoy) {
-      return res.status(404).json({
-        error: {
-          code: 'CONVOY_NOT_FOUND',
-          message: 'Convoy not found'
-        }
-      });
-    }
-
-    // Check if user is a member
-    if (!convoy.isMember(userId)) {
-      return res.status(403).json({
-        error: {
-          code: 'ACCESS_DENIED',
-          message: 'You are not a member of this convoy'
-        }
-      });
-    }
-
-    // Update convoy location
-    await convoy.updateLocation(
-      locationData.lat,
-      locationData.lng,
-      locationData.heading,
-      locationData.speed,
-      locationData.accuracy
-    );
-
-    // Update user location
-    await User.findByIdAndUpdate(userId, {
-      $set: {
-        'location.lat': locationData.lat,
-        'location.lng': locationData.lng,
-        'location.heading': locationData.heading,
-        'location.speed': locationData.speed,
-        'location.updatedAt': new Date()
-      }
-    });
+    await convoyLocationService.updateLocation(req.userId, id!, locationData);
 
     res.json({
       success: true,
@@ -593,6 +583,24 @@ router.post('/:id/location', requireAuth, async (req: AuthenticatedRequest, res)
       });
     }
 
+    if (error.message === 'Convoy not found') {
+      return res.status(404).json({
+        error: {
+          code: 'CONVOY_NOT_FOUND',
+          message: 'Convoy not found'
+        }
+      });
+    }
+
+    if (error.message === 'Not a convoy member') {
+      return res.status(403).json({
+        error: {
+          code: 'ACCESS_DENIED',
+          message: 'You are not a member of this convoy'
+        }
+      });
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -603,7 +611,7 @@ router.post('/:id/location', requireAuth, async (req: AuthenticatedRequest, res)
 });
 
 // GET /convoys/join/:joinCode
-router.get('/join/:joinCode', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/join/:joinCode', requireAuth, requireScope('convoys:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -1,16 +1,24 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { Types } from 'mongoose';
 import { DeviceToken } from '../models/DeviceToken.js';
-import { requireAuth } from '../middleware/auth.js';
+import { requireAuth, requireSession, type AuthenticatedRequest } from '../middleware/auth.js';
 
 const r = Router();
 
-r.post('/devices/register', requireAuth, async (req, res) => {
-  const uid = (req as any).uid as string;
-  const body = z.object({ token: z.string(), platform: z.string().optional() }).parse(req.body);
+r.post('/devices/register', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  const userId = new Types.ObjectId(req.userId);
+  const body = z.object({
+    token: z.string(),
+    platform: z.enum(['ios', 'android', 'web']),
+    // Same id the app sends as X-Device-Id at sign-in, linking the token to its session
+    deviceId: z.string().max(200).optional(),
+    appVersion: z.string().max(50).optional(),
+    osVersion: z.string().max(50).optional()
+  }).parse(req.body);
   await DeviceToken.findOneAndUpdate(
     { token: body.token },
-    { $set: { uid, platform: body.platform, updatedAt: new Date() } },
+    { $set: { ...body, userId, isActive: true, lastUsedAt: new Date() } },
     { upsert: true }
   );
   res.json({ ok: true });
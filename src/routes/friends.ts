@@ -4,7 +4,9 @@ import { Types } from 'mongoose';
 import { FriendRequest } from '../models/FriendRequest.js';
 import { User } from '../models/User.js';
 import { Notification } from '../models/Notification.js';
-import { requireAuth, type AuthenticatedRequest } from '../middleware/auth.js';
+import { usernameService } from '../services/usernameService.js';
+import { notificationService } from '../services/notificationService.js';
+import { requireAuth, requireVerifiedEmail, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -23,7 +25,7 @@ const blockUserSchema = z.object({
 });
 
 // GET /friends/requests
-router.get('/requests', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/requests', requireAuth, requireScope('friends:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -60,7 +62,7 @@ router.get('/requests', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // POST /friends/request
-router.post('/request', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/request', requireAuth, requireScope('friends:write'), requireVerifiedEmail('friend_requests'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -79,7 +81,8 @@ router.post('/request', requireAuth, async (req: AuthenticatedRequest, res) => {
     if (Types.ObjectId.isValid(to)) {
       targetUser = await User.findById(to);
     } else {
-      targetUser = await User.findByUsername(to);
+      // Requests addressed to a previous username still reach the renamed account
+      targetUser = (await usernameService.resolve(to))?.user ?? null;
     }
 
     if (!targetUser) {
@@ -153,11 +156,11 @@ router.post('/request', requireAuth, async (req: AuthenticatedRequest, res) => {
     });
 
     // Create notification for recipient
-    await Notification.createFriendRequest(
+    await notificationService.send(Notification.createFriendRequest(
       toId,
       fromId.toString(),
       currentUser?.username || 'Unknown User'
-    );
+    ));
 
     res.status(201).json({
       success: true,
@@ -184,7 +187,7 @@ router.post('/request', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // POST /friends/respond
-router.post('/respond', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/respond', requireAuth, requireScope('friends:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -231,11 +234,11 @@ router.post('/respond', requireAuth, async (req: AuthenticatedRequest, res) => {
 
       // Create notification for sender
       const currentUser = await User.findById(userId);
-      await Notification.createFriendAccepted(
+      await notificationService.send(Notification.createFriendAccepted(
         friendRequest.from,
         userId.toString(),
         currentUser?.username || 'Unknown'
-      );
+      ));
     } else if (action === 'decline') {
       await friendRequest.decline();
     } else if (action === 'block') {
@@ -270,7 +273,7 @@ router.post('/respond', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // GET /friends/list
-router.get('/list', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/list', requireAuth, requireScope('friends:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -313,7 +316,7 @@ router.get('/list', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // DELETE /friends/:userId
-router.delete('/:userId', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.delete('/:userId', requireAuth, requireScope('friends:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -351,7 +354,7 @@ router.delete('/:userId', requireAuth, async (req: AuthenticatedRequest, res) =>
 });
 
 // POST /friends/block
-router.post('/block', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/block', requireAuth, requireScope('friends:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -417,7 +420,7 @@ router.post('/block', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // POST /friends/unblock
-router.post('/unblock', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/unblock', requireAuth, requireScope('friends:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -1,7 +1,14 @@
 import express from 'express';
 import { z } from 'zod';
-import { User } from '../models/User.js';
-import { requireAuth, type AuthenticatedRequest } from '../middleware/auth.js';
+import { User, settingsPaths } from '../models/User.js';
+import { usernameService, sendUsernameChangeError } from '../services/usernameService.js';
+import { presenceService } from '../services/presenceService.js';
+import { requireAuth, requireScope, requireSession, type AuthenticatedRequest } from '../middleware/auth.js';
+import { sessionService } from '../services/sessionService.js';
+import { accountDeletionService } from '../services/accountDeletionService.js';
+import { dataExportService } from '../services/dataExportService.js';
+import { personalAccessTokenService } from '../services/personalAccessTokenService.js';
+import { TOKEN_SCOPES } from '../types/auth.js';
 
 const router = express.Router();
 
@@ -18,6 +25,7 @@ const updateMeSchema = z.object({
     showConvoys: z.enum(['everyone', 'friends', 'private']).optional(),
     showStats: z.enum(['everyone', 'friends', 'private']).optional(),
     showProfile: z.enum(['everyone', 'friends', 'private']).optional(),
+    hideOnlineStatus: z.boolean().optional(),
     notifications: z.object({
       convoyInvites: z.boolean().optional(),
       friendRequests: z.boolean().optional(),
@@ -27,8 +35,19 @@ const updateMeSchema = z.object({
   }).optional()
 });
 
+const deleteMeSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().optional() // required when 2FA is enabled
+});
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  scopes: z.array(z.enum(TOKEN_SCOPES)).min(1, 'At least one scope is required'),
+  expiresInDays: z.number().int().min(1).default(90)
+});
+
 // GET /me
-router.get('/', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/', requireAuth, requireScope('profile:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -40,8 +59,7 @@ router.get('/', requireAuth, async (req: AuthenticatedRequest, res) => {
     }
 
     const user = await User.findById(req.userId)
-      .populate('friends', 'username avatarUrl lastSeenAt')
-      .lean();
+      .populate('friends', 'username avatarUrl lastSeenAt');
 
     if (!user) {
       return res.status(404).json({
@@ -67,7 +85,7 @@ router.get('/', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // PATCH /me
-router.patch('/', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.patch('/', requireAuth, requireScope('profile:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -78,32 +96,19 @@ router.patch('/', requireAuth, async (req: AuthenticatedRequest, res) => {
       });
     }
 
-    const updates = updateMeSchema.parse(req.body);
-    
-    // Check username uniqueness if being updated
-    if (updates.username) {
-      const existingUser = await User.findOne({
-        username: updates.username.toLowerCase(),
-        _id: { $ne: req.userId }
-      });
-      
-      if (existingUser) {
-        return res.status(409).json({
-          error: {
-            code: 'USERNAME_TAKEN',
-            message: 'Username is already taken'
-          }
-        });
-      }
-      
-      updates.username = updates.username.toLowerCase();
+    const { username, settings, ...updates } = updateMeSchema.parse(req.body);
+
+    // Checked up front so a rename that would be refused doesn't leave the
+    // other fields saved
+    if (username) {
+      await usernameService.assertCanChange(req.userId, username);
     }
 
     const user = await User.findByIdAndUpdate(
       req.userId,
-      { $set: updates },
+      { $set: { ...updates, ...(settings ? settingsPaths(settings) : {}) } },
       { new: true, runValidators: true }
-    ).lean();
+    );
 
     if (!user) {
       return res.status(404).json({
@@ -114,6 +119,17 @@ router.patch('/', requireAuth, async (req: AuthenticatedRequest, res) => {
       });
     }
 
+    // Last, so a rejected profile update can't leave the user renamed
+    if (username) {
+      const renamed = await usernameService.changeUsername(req.userId, username);
+      user.username = renamed.username;
+      user.usernameChangedAt = renamed.usernameChangedAt ?? null;
+    }
+
+    if (settings?.hideOnlineStatus !== undefined) {
+      await presenceService.refreshVisibility(req.userId);
+    }
+
     res.json({
       success: true,
       data: user
@@ -129,6 +145,10 @@ router.patch('/', requireAuth, async (req: AuthenticatedRequest, res) => {
       });
     }
 
+    if (sendUsernameChangeError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -138,4 +158,421 @@ router.patch('/', requireAuth, async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// DELETE /me
+router.delete('/', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { password, code } = deleteMeSchema.parse(req.body);
+
+    const deletionScheduledFor = await accountDeletionService.scheduleDeletion(req.userId, password, code);
+
+    res.status(202).json({
+      success: true,
+      data: { deletionScheduledFor },
+      message: 'Account scheduled for deletion; sign in again before then to cancel'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
+        }
+      });
+    }
+
+    const knownErrors: Record<string, { status: number; code: string }> = {
+      'Password is incorrect': { status: 400, code: 'INVALID_PASSWORD' },
+      'Two-factor code required': { status: 400, code: 'TWO_FACTOR_REQUIRED' },
+      'Invalid two-factor code': { status: 400, code: 'INVALID_TWO_FACTOR_CODE' },
+      'User not found': { status: 404, code: 'USER_NOT_FOUND' }
+    };
+
+    const known = knownErrors[error.message];
+    if (known) {
+      return res.status(known.status).json({
+        error: {
+          code: known.code,
+          message: error.message
+        }
+      });
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to delete account'
+      }
+    });
+  }
+});
+
+// Responds for data export lookup errors; returns false for anything else
+function sendDataExportError(res: express.Response, error: any): boolean {
+  const knownErrors: Record<string, { status: number; code: string; message: string }> = {
+    'Export not found': { status: 404, code: 'EXPORT_NOT_FOUND', message: 'Export not found' },
+    'Export not ready': { status: 409, code: 'EXPORT_NOT_READY', message: 'Export is still being prepared' },
+    'Export expired': { status: 410, code: 'EXPORT_EXPIRED', message: 'Export has expired; request a new one' }
+  };
+
+  const known = knownErrors[error.message];
+  if (!known) {
+    return false;
+  }
+
+  res.status(known.status).json({
+    error: {
+      code: known.code,
+      message: known.message
+    }
+  });
+  return true;
+}
+
+// POST /me/export
+router.post('/export', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    // Built in the background; poll GET /me/export/:id or wait for the notification
+    const dataExport = await dataExportService.requestExport(req.userId);
+
+    res.status(202).json({
+      success: true,
+      data: dataExport
+    });
+  } catch (error: any) {
+    if (error.message === 'Export limit reached') {
+      return res.status(429).json({
+        error: {
+          code: 'EXPORT_LIMIT_REACHED',
+          message: 'Too many exports requested today, please try again later'
+        }
+      });
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to request data export'
+      }
+    });
+  }
+});
+
+// GET /me/export/:id
+router.get('/export/:id', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+    const dataExport = await dataExportService.getExport(req.userId, id!);
+
+    res.json({
+      success: true,
+      data: dataExport
+    });
+  } catch (error: any) {
+    if (sendDataExportError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch data export'
+      }
+    });
+  }
+});
+
+// GET /me/export/:id/download
+router.get('/export/:id/download', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+    const { stream, size } = await dataExportService.openDownload(req.userId, id!);
+
+    stream.on('error', (error) => {
+      console.error(`[exports] download of ${id} failed`, error);
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to download data export'
+        }
+      });
+    });
+
+    res.attachment(`armada-export-${id}.zip`);
+    res.set('Content-Length', String(size));
+    stream.pipe(res);
+  } catch (error: any) {
+    if (sendDataExportError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to download data export'
+      }
+    });
+  }
+});
+
+// GET /me/sessions
+router.get('/sessions', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const sessions = await sessionService.listSessions(req.userId, req.sessionId);
+
+    res.json({
+      success: true,
+      data: { sessions }
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch sessions'
+      }
+    });
+  }
+});
+
+// POST /me/sessions/logout-others
+router.post('/sessions/logout-others', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId || !req.sessionId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const revoked = await sessionService.revokeOtherSessions(req.userId, req.sessionId);
+
+    res.json({
+      success: true,
+      data: { revoked }
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to log out other sessions'
+      }
+    });
+  }
+});
+
+// DELETE /me/sessions/:id
+router.delete('/sessions/:id', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+    await sessionService.revokeSession(req.userId, id!);
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+  } catch (error: any) {
+    if (error.message === 'Session not found') {
+      return res.status(404).json({
+        error: {
+          code: 'SESSION_NOT_FOUND',
+          message: 'Session not found'
+        }
+      });
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to revoke session'
+      }
+    });
+  }
+});
+
+// GET /me/tokens
+router.get('/tokens', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const tokens = await personalAccessTokenService.listTokens(req.userId);
+
+    res.json({
+      success: true,
+      data: { tokens }
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch access tokens'
+      }
+    });
+  }
+});
+
+// POST /me/tokens
+router.post('/tokens', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { name, scopes, expiresInDays } = createTokenSchema.parse(req.body);
+
+    // The raw token is only ever returned here
+    const { token, summary } = await personalAccessTokenService.createToken(req.userId, name, scopes, expiresInDays);
+
+    res.status(201).json({
+      success: true,
+      data: { ...summary, token }
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
+        }
+      });
+    }
+
+    if (error.message === 'Token lifetime too long') {
+      return res.status(400).json({
+        error: {
+          code: 'TOKEN_LIFETIME_TOO_LONG',
+          message: error.message
+        }
+      });
+    }
+
+    if (error.message === 'Token limit reached') {
+      return res.status(409).json({
+        error: {
+          code: 'TOKEN_LIMIT_REACHED',
+          message: 'Revoke an existing access token before creating another'
+        }
+      });
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to create access token'
+      }
+    });
+  }
+});
+
+// DELETE /me/tokens/:id
+router.delete('/tokens/:id', requireAuth, requireSession, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+    await personalAccessTokenService.revokeToken(req.userId, id!);
+
+    res.json({
+      success: true,
+      message: 'Access token revoked successfully'
+    });
+  } catch (error: any) {
+    if (error.message === 'Token not found') {
+      return res.status(404).json({
+        error: {
+          code: 'TOKEN_NOT_FOUND',
+          message: 'Access token not found'
+        }
+      });
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to revoke access token'
+      }
+    });
+  }
+});
+
 export default router;
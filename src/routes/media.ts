@@ -2,7 +2,7 @@ import express from 'express';
 import multer from 'multer';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
-import { requireAuth, type AuthenticatedRequest } from '../middleware/auth.js';
+import { requireAuth, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -31,7 +31,7 @@ const mediaUploadSchema = z.object({
 });
 
 // POST /media/upload
-router.post('/upload', requireAuth, upload.single('file'), async (req: AuthenticatedRequest, res) => {
+router.post('/upload', requireAuth, requireScope('media:write'), upload.single('file'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -125,7 +125,7 @@ router.post('/upload', requireAuth, upload.single('file'), async (req: Authentic
 });
 
 // POST /media/upload-multiple
-router.post('/upload-multiple', requireAuth, upload.array('files', 5), async (req: AuthenticatedRequest, res) => {
+router.post('/upload-multiple', requireAuth, requireScope('media:write'), upload.array('files', 5), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -2,7 +2,7 @@ import express from 'express';
 import { z } from 'zod';
 import { Types } from 'mongoose';
 import { Notification } from '../models/Notification.js';
-import { requireAuth, type AuthenticatedRequest } from '../middleware/auth.js';
+import { requireAuth, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -19,7 +19,7 @@ const getNotificationsSchema = z.object({
 });
 
 // GET /notifications
-router.get('/', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/', requireAuth, requireScope('notifications:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -78,7 +78,7 @@ router.get('/', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // GET /notifications/unread-count
-router.get('/unread-count', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/unread-count', requireAuth, requireScope('notifications:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -109,7 +109,7 @@ router.get('/unread-count', requireAuth, async (req: AuthenticatedRequest, res)
 });
 
 // POST /notifications/read
-router.post('/read', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/read', requireAuth, requireScope('notifications:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -162,7 +162,7 @@ router.post('/read', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // DELETE /notifications/:id
-router.delete('/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.delete('/:id', requireAuth, requireScope('notifications:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -4,7 +4,8 @@ import { Types } from 'mongoose';
 import { Thread } from '../models/Thread.js';
 import { Message } from '../models/Message.js';
 import { User } from '../models/User.js';
-import { requireAuth, type AuthenticatedRequest } from '../middleware/auth.js';
+import { requireAuth, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
+import { messageService, sendMessageSchema } from '../services/messageService.js';
 
 const router = express.Router();
 
@@ -15,27 +16,41 @@ const createThreadSchema = z.object({
   isGroup: z.boolean().default(false)
 });
 
-const sendMessageSchema = z.object({
-  text: z.string().max(2000, 'Message too long').optional(),
-  media: z.object({
-    url: z.string().url('Invalid media URL'),
-    type: z.enum(['image', 'video', 'audio']),
-    width: z.number().min(0).optional(),
-    height: z.number().min(0).optional(),
-    duration: z.number().min(0).optional(),
-    filename: z.string().optional(),
-    size: z.number().min(0).optional()
-  }).optional()
-}).refine(data => data.text || data.media, {
-  message: 'Message must have either text or media'
+const editMessageSchema = z.object({
+  text: z.string().min(1, 'Message text is required').max(2000, 'Message too long')
+});
+
+const reactionSchema = z.object({
+  emoji: z.string().min(1, 'Emoji is required').max(10, 'Emoji too long')
 });
 
 const markAsReadSchema = z.object({
   lastReadAt: z.coerce.date().optional()
 });
 
+function sendMessageError(res: express.Response, error: any): boolean {
+  const knownErrors: Record<string, { status: number; code: string; message: string }> = {
+    'Not a thread participant': { status: 403, code: 'ACCESS_DENIED', message: 'You are not a participant of this thread' },
+    'Message not found': { status: 404, code: 'MESSAGE_NOT_FOUND', message: 'Message not found' },
+    'Not the message sender': { status: 403, code: 'ACCESS_DENIED', message: 'You can only change your own messages' }
+  };
+
+  const known = knownErrors[error.message];
+  if (!known) {
+    return false;
+  }
+
+  res.status(known.status).json({
+    error: {
+      code: known.code,
+      message: known.message
+    }
+  });
+  return true;
+}
+
 // GET /threads
-router.get('/', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/', requireAuth, requireScope('messages:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -77,7 +92,7 @@ router.get('/', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // POST /threads
-router.post('/', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/', requireAuth, requireScope('messages:send'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -155,7 +170,7 @@ router.post('/', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // GET /threads/:id
-router.get('/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/:id', requireAuth, requireScope('messages:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -211,7 +226,7 @@ router.get('/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // GET /threads/:id/messages
-router.get('/:id/messages', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/:id/messages', requireAuth, requireScope('messages:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -263,7 +278,7 @@ router.get('/:id/messages', requireAuth, async (req: AuthenticatedRequest, res)
 });
 
 // POST /threads/:id/messages
-router.post('/:id/messages', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/:id/messages', requireAuth, requireScope('messages:send'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -276,40 +291,55 @@ router.post('/:id/messages', requireAuth, async (req: AuthenticatedRequest, res)
 
     const { id } = req.params;
     const messageData = sendMessageSchema.parse(req.body);
-    const userId = new Types.ObjectId(req.userId);
 
-    // Verify user is participant
-    const thread = await Thread.findById(id);
-    if (!thread || !thread.participants.includes(userId)) {
-      return res.status(403).json({
+    const message = await messageService.sendMessage(req.userId, id!, messageData);
+
+    res.status(201).json({
+      success: true,
+      data: message
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
         error: {
-          code: 'ACCESS_DENIED',
-          message: 'You are not a participant of this thread'
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
         }
       });
     }
 
-    // Create message
-    const message = await Message.create({
-      threadId: new Types.ObjectId(id),
-      senderId: userId,
-      text: messageData.text,
-      media: messageData.media
+    if (sendMessageError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to send message'
+      }
     });
+  }
+});
 
-    // Update thread last message and unread counts
-    await thread.updateLastMessage();
-    
-    // Increment unread count for other participants
-    const otherParticipants = thread.participants.filter(id => !id.equals(userId));
-    for (const participantId of otherParticipants) {
-      await thread.incrementUnread(participantId);
+// PATCH /threads/:id/messages/:messageId
+router.patch('/:id/messages/:messageId', requireAuth, requireScope('messages:send'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
     }
 
-    // Populate sender info
-    await message.populate('senderId', 'username avatarUrl');
+    const { id, messageId } = req.params;
+    const { text } = editMessageSchema.parse(req.body);
 
-    res.status(201).json({
+    const message = await messageService.editMessage(req.userId, id!, messageId!, text);
+
+    res.json({
       success: true,
       data: message
     });
@@ -324,17 +354,21 @@ router.post('/:id/messages', requireAuth, async (req: AuthenticatedRequest, res)
       });
     }
 
+    if (sendMessageError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
-        message: 'Failed to send message'
+        message: 'Failed to edit message'
       }
     });
   }
 });
 
-// POST /threads/:id/read
-router.post('/:id/read', requireAuth, async (req: AuthenticatedRequest, res) => {
+// DELETE /threads/:id/messages/:messageId
+router.delete('/:id/messages/:messageId', requireAuth, requireScope('messages:send'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -345,23 +379,121 @@ router.post('/:id/read', requireAuth, async (req: AuthenticatedRequest, res) =>
       });
     }
 
-    const { id } = req.params;
-    const { lastReadAt } = markAsReadSchema.parse(req.body);
-    const userId = new Types.ObjectId(req.userId);
+    const { id, messageId } = req.params;
+    await messageService.deleteMessage(req.userId, id!, messageId!);
 
-    // Verify user is participant
-    const thread = await Thread.findById(id);
-    if (!thread || !thread.participants.includes(userId)) {
-      return res.status(403).json({
+    res.json({
+      success: true,
+      message: 'Message deleted successfully'
+    });
+  } catch (error: any) {
+    if (sendMessageError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to delete message'
+      }
+    });
+  }
+});
+
+// PUT /threads/:id/messages/:messageId/reaction
+router.put('/:id/messages/:messageId/reaction', requireAuth, requireScope('messages:send'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
         error: {
-          code: 'ACCESS_DENIED',
-          message: 'You are not a participant of this thread'
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { id, messageId } = req.params;
+    const { emoji } = reactionSchema.parse(req.body);
+
+    const message = await messageService.react(req.userId, id!, messageId!, emoji);
+
+    res.json({
+      success: true,
+      data: { reactions: message.reactions }
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: error.errors
+        }
+      });
+    }
+
+    if (sendMessageError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to react to message'
+      }
+    });
+  }
+});
+
+// DELETE /threads/:id/messages/:messageId/reaction
+router.delete('/:id/messages/:messageId/reaction', requireAuth, requireScope('messages:send'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      });
+    }
+
+    const { id, messageId } = req.params;
+    const message = await messageService.react(req.userId, id!, messageId!, null);
+
+    res.json({
+      success: true,
+      data: { reactions: message.reactions }
+    });
+  } catch (error: any) {
+    if (sendMessageError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to remove reaction'
+      }
+    });
+  }
+});
+
+// POST /threads/:id/read
+router.post('/:id/read', requireAuth, requireScope('messages:send'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
         }
       });
     }
 
-    // Mark as read
-    await thread.markAsRead(userId);
+    const { id } = req.params;
+    const { lastReadAt } = markAsReadSchema.parse(req.body);
+
+    await messageService.markRead(req.userId, id!, lastReadAt);
 
     res.json({
       success: true,
@@ -378,6 +510,10 @@ router.post('/:id/read', requireAuth, async (req: AuthenticatedRequest, res) =>
       });
     }
 
+    if (sendMessageError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -388,7 +524,7 @@ router.post('/:id/read', requireAuth, async (req: AuthenticatedRequest, res) =>
 });
 
 // DELETE /threads/:id
-router.delete('/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.delete('/:id', requireAuth, requireScope('messages:send'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
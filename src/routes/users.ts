@@ -1,8 +1,10 @@
 import express from 'express';
 import { Types } from 'mongoose';
 import { z } from 'zod';
-import { User } from '../models/User.js';
-import { requireAuth, optionalAuth, type AuthenticatedRequest } from '../middleware/auth.js';
+import { User, settingsPaths } from '../models/User.js';
+import { usernameService, sendUsernameChangeError } from '../services/usernameService.js';
+import { presenceService } from '../services/presenceService.js';
+import { requireAuth, optionalAuth, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -19,6 +21,7 @@ const updateProfileSchema = z.object({
     showConvoys: z.enum(['everyone', 'friends', 'private']).optional(),
     showStats: z.enum(['everyone', 'friends', 'private']).optional(),
     showProfile: z.enum(['everyone', 'friends', 'private']).optional(),
+    hideOnlineStatus: z.boolean().optional(),
     notifications: z.object({
       convoyInvites: z.boolean().optional(),
       friendRequests: z.boolean().optional(),
@@ -35,7 +38,7 @@ const searchUsersSchema = z.object({
 });
 
 // GET /users/me
-router.get('/me', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/me', requireAuth, requireScope('profile:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -47,8 +50,7 @@ router.get('/me', requireAuth, async (req: AuthenticatedRequest, res) => {
     }
 
     const user = await User.findById(req.userId)
-      .populate('friends', 'username avatarUrl lastSeenAt')
-      .lean();
+      .populate('friends', 'username avatarUrl lastSeenAt');
 
     if (!user) {
       return res.status(404).json({
@@ -74,7 +76,7 @@ router.get('/me', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // PATCH /users/me
-router.patch('/me', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.patch('/me', requireAuth, requireScope('profile:write'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
@@ -85,32 +87,19 @@ router.patch('/me', requireAuth, async (req: AuthenticatedRequest, res) => {
       });
     }
 
-    const updates = updateProfileSchema.parse(req.body);
-    
-    // Check username uniqueness if being updated
-    if (updates.username) {
-      const existingUser = await User.findOne({
-        username: updates.username.toLowerCase(),
-        _id: { $ne: req.userId }
-      });
-      
-      if (existingUser) {
-        return res.status(409).json({
-          error: {
-            code: 'USERNAME_TAKEN',
-            message: 'Username is already taken'
-          }
-        });
-      }
-      
-      updates.username = updates.username.toLowerCase();
+    const { username, settings, ...updates } = updateProfileSchema.parse(req.body);
+
+    // Checked up front so a rename that would be refused doesn't leave the
+    // other fields saved
+    if (username) {
+      await usernameService.assertCanChange(req.userId, username);
     }
 
     const user = await User.findByIdAndUpdate(
       req.userId,
-      { $set: updates },
+      { $set: { ...updates, ...(settings ? settingsPaths(settings) : {}) } },
       { new: true, runValidators: true }
-    ).lean();
+    );
 
     if (!user) {
       return res.status(404).json({
@@ -121,6 +110,17 @@ router.patch('/me', requireAuth, async (req: AuthenticatedRequest, res) => {
       });
     }
 
+    // Last, so a rejected profile update can't leave the user renamed
+    if (username) {
+      const renamed = await usernameService.changeUsername(req.userId, username);
+      user.username = renamed.username;
+      user.usernameChangedAt = renamed.usernameChangedAt ?? null;
+    }
+
+    if (settings?.hideOnlineStatus !== undefined) {
+      await presenceService.refreshVisibility(req.userId);
+    }
+
     res.json({
       success: true,
       data: user
@@ -136,6 +136,10 @@ router.patch('/me', requireAuth, async (req: AuthenticatedRequest, res) => {
       });
     }
 
+    if (sendUsernameChangeError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -146,7 +150,7 @@ router.patch('/me', requireAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // GET /users/:id
-router.get('/:id', optionalAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/:id', optionalAuth, requireScope('users:read'), async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
     
@@ -206,7 +210,7 @@ router.get('/:id', optionalAuth, async (req: AuthenticatedRequest, res) => {
 });
 
 // GET /users/by-username/:username
-router.get('/by-username/:username', optionalAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/by-username/:username', optionalAuth, requireScope('users:read'), async (req: AuthenticatedRequest, res) => {
   try {
     const { username } = req.params;
     
@@ -219,11 +223,10 @@ router.get('/by-username/:username', optionalAuth, async (req: AuthenticatedRequ
       });
     }
     
-    const user = await User.findOne({ username: username.toLowerCase() })
-      .select('username avatarUrl bio settings stats createdAt')
-      .exec();
+    // Old names keep resolving to the account that gave them up
+    const resolved = await usernameService.resolve(username, 'username avatarUrl bio settings stats createdAt');
 
-    if (!user) {
+    if (!resolved) {
       return res.status(404).json({
         error: {
           code: 'USER_NOT_FOUND',
@@ -232,6 +235,8 @@ router.get('/by-username/:username', optionalAuth, async (req: AuthenticatedRequ
       });
     }
 
+    const { user, previousUsername } = resolved;
+
     // Check privacy settings
     if (user.settings?.showProfile === 'private' && (!req.userId || req.userId !== user._id.toString())) {
       return res.status(403).json({
@@ -262,7 +267,15 @@ router.get('/by-username/:username', optionalAuth, async (req: AuthenticatedRequ
 
     res.json({
       success: true,
-      data: user
+      data: user,
+      // Clients should update links and stored names to the current username
+      ...(previousUsername ? {
+        redirect: {
+          from: previousUsername,
+          to: user.username,
+          location: `/users/by-username/${encodeURIComponent(user.username)}`
+        }
+      } : {})
     });
   } catch (error) {
     res.status(500).json({
@@ -275,7 +288,7 @@ router.get('/by-username/:username', optionalAuth, async (req: AuthenticatedRequ
 });
 
 // GET /users/search
-router.get('/search', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get('/search', requireAuth, requireScope('users:read'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.userId) {
       return res.status(401).json({
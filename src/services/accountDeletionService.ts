@@ -0,0 +1,202 @@
+import { Types } from 'mongoose';
+import { User, type IUserDoc } from '../models/User.js';
+import { Convoy } from '../models/Convoy.js';
+import { Thread } from '../models/Thread.js';
+import { Message } from '../models/Message.js';
+import { FriendRequest } from '../models/FriendRequest.js';
+import { Notification } from '../models/Notification.js';
+import { DeviceToken } from '../models/DeviceToken.js';
+import { RefreshSession } from '../models/RefreshSession.js';
+import { PasswordResetToken } from '../models/PasswordResetToken.js';
+import { EmailVerification } from '../models/EmailVerification.js';
+import { MagicLinkToken } from '../models/MagicLinkToken.js';
+import { PersonalAccessToken } from '../models/PersonalAccessToken.js';
+import { mailer } from './mailer.js';
+import { principalCache } from './principalCache.js';
+import { realtimeService, SESSION_REVOKED } from './realtimeService.js';
+import { twoFactorService } from './twoFactorService.js';
+import { dataExportService } from './dataExportService.js';
+import { usernameService } from './usernameService.js';
+
+class AccountDeletionService {
+  private graceDays: number;
+  private purgeIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.graceDays = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS || 30);
+    this.purgeIntervalMs = Number(process.env.ACCOUNT_PURGE_INTERVAL_MINUTES || 60) * 60 * 1000;
+  }
+
+  // Schedules the account for removal after the grace period and signs it out
+  // everywhere; signing back in before the deadline cancels the request
+  async scheduleDeletion(userId: string, password: string, code?: string): Promise<Date> {
+    const user = await User.findOne({ _id: userId, deletedAt: null });
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!(await user.comparePassword(password))) {
+      throw new Error('Password is incorrect');
+    }
+
+    if (user.twoFactor?.enabled) {
+      if (!code) {
+        throw new Error('Two-factor code required');
+      }
+      if (!(await twoFactorService.verifyForUser(userId, code))) {
+        throw new Error('Invalid two-factor code');
+      }
+    }
+
+    const scheduledFor = user.deletionScheduledFor
+      ?? new Date(Date.now() + this.graceDays * 24 * 60 * 60 * 1000);
+
+    user.deletionScheduledFor = scheduledFor;
+    await user.save();
+
+    await RefreshSession.revokeUserSessions(user._id, 'user_deleted');
+    await principalCache.invalidate(user._id);
+    realtimeService.disconnectUser(user.id, SESSION_REVOKED);
+    await DeviceToken.deactivateUserTokens(user._id);
+    await PersonalAccessToken.revokeUserTokens(user._id);
+
+    await mailer.send({
+      to: user.email,
+      subject: 'Your Armada account is scheduled for deletion',
+      text: [
+        `Hi ${user.username},`,
+        '',
+        `Your account and its data will be permanently deleted on ${scheduledFor.toUTCString()}.`,
+        'Changed your mind? Just sign in again before then and the deletion is cancelled.'
+      ].join('\n')
+    }).catch((error) => {
+      console.error('Failed to send account deletion email', error);
+    });
+
+    return scheduledFor;
+  }
+
+  // Called on every successful sign-in; the filter on deletedAt keeps a
+  // purge that has already started from being resurrected
+  async cancelDeletion(user: IUserDoc): Promise<void> {
+    if (!user.deletionScheduledFor) {
+      return;
+    }
+
+    await User.updateOne({ _id: user._id, deletedAt: null }, { $set: { deletionScheduledFor: null } });
+    user.deletionScheduledFor = null;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.purgeDueAccounts().catch((error) => {
+        console.error('[accounts] purge failed', error);
+      });
+    };
+
+    this.timer = setInterval(run, this.purgeIntervalMs);
+    this.timer.unref();
+    run();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Purges every account past its deadline, plus any whose earlier purge was
+  // interrupted (deletedAt set but the document still present)
+  async purgeDueAccounts(): Promise<number> {
+    const due = await User.find({
+      $or: [
+        { deletionScheduledFor: { $lte: new Date() } },
+        { deletedAt: { $ne: null } }
+      ]
+    }).select('_id').lean();
+
+    for (const user of due) {
+      await this.purgeUser(user._id);
+    }
+
+    if (due.length > 0) {
+      console.log(`[accounts] purged ${due.length} deleted account(s)`);
+    }
+    return due.length;
+  }
+
+  private async purgeUser(userId: Types.ObjectId): Promise<void> {
+    // Tombstone first so the account stops authenticating while the cleanup runs.
+    // Losing this race to cancelDeletion means the user signed in; skip them.
+    const tombstoned = await User.updateOne(
+      {
+        _id: userId,
+        $or: [
+          { deletionScheduledFor: { $lte: new Date() } },
+          { deletedAt: { $ne: null } }
+        ]
+      },
+      { $set: { deletedAt: new Date() } }
+    );
+    if (tombstoned.matchedCount === 0) {
+      return;
+    }
+    await principalCache.invalidate(userId);
+
+    const id = userId.toString();
+
+    // Other users' social graph
+    const friendsOf = await User.find({ friends: userId }).distinct('_id');
+    await User.updateMany(
+      { $or: [{ friends: userId }, { blocked: userId }] },
+      { $pull: { friends: userId, blocked: userId } }
+    );
+    await User.updateMany(
+      { _id: { $in: friendsOf } },
+      [{ $set: { 'stats.friendsCount': { $size: '$friends' } } }]
+    );
+    await FriendRequest.deleteMany({ $or: [{ from: userId }, { to: userId }] });
+
+    // Convoys they own are ended and removed; elsewhere they just leave
+    await Convoy.updateMany(
+      { ownerId: userId, deletedAt: null },
+      { $set: { deletedAt: new Date(), isLive: false, endedAt: new Date() } }
+    );
+    await Convoy.updateMany({ members: userId }, { $pull: { members: userId } });
+
+    await Thread.updateMany(
+      { participants: userId },
+      { $pull: { participants: userId }, $unset: { [`unreadCounts.${id}`]: '', [`lastReadAt.${id}`]: '' } }
+    );
+    await Message.anonymizeSender(userId);
+
+    // Their own notifications and the ones that name them to others
+    await Notification.deleteMany({
+      $or: [
+        { userId },
+        { 'payload.friendId': id },
+        { 'payload.ownerId': id },
+        { 'payload.senderId': id }
+      ]
+    });
+
+    await DeviceToken.deleteMany({ userId });
+    await RefreshSession.deleteMany({ userId });
+    await PasswordResetToken.deleteMany({ userId });
+    await EmailVerification.deleteMany({ userId });
+    await MagicLinkToken.deleteMany({ userId });
+    await PersonalAccessToken.deleteMany({ userId });
+    await dataExportService.deleteUserExports(userId);
+    await usernameService.deleteUserHistory(userId);
+
+    await User.deleteOne({ _id: userId });
+  }
+}
+
+export const accountDeletionService = new AccountDeletionService();
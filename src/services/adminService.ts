@@ -0,0 +1,236 @@
+import { Types, type FilterQuery } from 'mongoose';
+import { User, hasRole, type IUserDoc, type UserRole } from '../models/User.js';
+import { Convoy, type IConvoyDoc } from '../models/Convoy.js';
+import { Message } from '../models/Message.js';
+import { Thread } from '../models/Thread.js';
+import { RefreshSession } from '../models/RefreshSession.js';
+import { principalCache } from './principalCache.js';
+import { realtimeService } from './realtimeService.js';
+import { messageService } from './messageService.js';
+import { presenceService, type PresenceCounts } from './presenceService.js';
+
+export interface AdminUserSearch {
+  q?: string | undefined;
+  role?: UserRole | undefined;
+  suspended?: boolean | undefined;
+  limit: number;
+  offset: number;
+}
+
+export interface PlatformStats {
+  users: { total: number; activeLast24h: number; suspended: number; pendingDeletion: number };
+  convoys: { total: number; live: number };
+  threads: { total: number };
+  messages: { total: number; last24h: number };
+  presence: PresenceCounts;
+}
+
+const ADMIN_USER_FIELDS = 'email username role emailVerifiedAt lastSeenAt createdAt suspendedAt suspendedUntil suspensionReason suspendedBy deletionScheduledFor';
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+class AdminService {
+  async searchUsers(search: AdminUserSearch): Promise<{ users: any[]; total: number }> {
+    const filter: FilterQuery<IUserDoc> = { deletedAt: null };
+
+    if (search.q) {
+      const regex = new RegExp(escapeRegex(search.q), 'i');
+      const matches: FilterQuery<IUserDoc>[] = [{ username: regex }, { email: regex }];
+      if (Types.ObjectId.isValid(search.q)) {
+        matches.push({ _id: new Types.ObjectId(search.q) });
+      }
+      filter.$or = matches;
+    }
+    if (search.role) {
+      filter.role = search.role;
+    }
+    if (search.suspended !== undefined) {
+      const now = new Date();
+      filter.$and = [search.suspended
+        ? { suspendedAt: { $ne: null }, $or: [{ suspendedUntil: null }, { suspendedUntil: { $gt: now } }] }
+        : { $or: [{ suspendedAt: null }, { suspendedUntil: { $lte: now } }] }];
+    }
+
+    const [users, total] = await Promise.all([
+      User.find(filter)
+        .select(ADMIN_USER_FIELDS)
+        .sort({ createdAt: -1 })
+        .skip(search.offset)
+        .limit(search.limit)
+        .lean(),
+      User.countDocuments(filter)
+    ]);
+
+    return { users, total };
+  }
+
+  async getUser(id: string): Promise<any> {
+    const user = Types.ObjectId.isValid(id)
+      ? await User.findOne({ _id: id, deletedAt: null }).select(`${ADMIN_USER_FIELDS} stats identities`).lean()
+      : null;
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  // Suspends the account, ends its sessions and drops its sockets; `until` omitted means indefinitely
+  async suspendUser(actor: { id: string; role: UserRole }, id: string, reason: string, until?: Date): Promise<IUserDoc> {
+    const user = await this.findTarget(actor, id);
+
+    if (until && until <= new Date()) {
+      throw new Error('Suspension end must be in the future');
+    }
+
+    user.suspendedAt = new Date();
+    user.suspendedUntil = until ?? null;
+    user.suspensionReason = reason;
+    user.suspendedBy = new Types.ObjectId(actor.id);
+    await user.save();
+    await principalCache.invalidate(user._id);
+
+    await RefreshSession.revokeUserSessions(user._id, 'user_suspended');
+    realtimeService.disconnectUser(user.id, { code: 'ACCOUNT_SUSPENDED', message: 'This account has been suspended' });
+    console.log(`[admin] ${actor.id} suspended user ${id}`);
+
+    return user;
+  }
+
+  async unsuspendUser(actor: { id: string; role: UserRole }, id: string): Promise<IUserDoc> {
+    const user = await this.findTarget(actor, id);
+
+    user.suspendedAt = null;
+    user.suspendedUntil = null;
+    user.suspensionReason = null;
+    user.suspendedBy = null;
+    await user.save();
+    await principalCache.invalidate(user._id);
+
+    console.log(`[admin] ${actor.id} unsuspended user ${id}`);
+    return user;
+  }
+
+  async setRole(actor: { id: string; role: UserRole }, id: string, role: UserRole): Promise<IUserDoc> {
+    const user = await this.findTarget(actor, id);
+
+    user.role = role;
+    await user.save();
+    await principalCache.invalidate(user._id);
+
+    console.log(`[admin] ${actor.id} set role of user ${id} to ${role}`);
+    return user;
+  }
+
+  async endConvoy(actorId: string, id: string): Promise<IConvoyDoc> {
+    const convoy = await this.findConvoy(id);
+    if (!convoy.isLive) {
+      throw new Error('Convoy is not live');
+    }
+
+    await convoy.endConvoy();
+    console.log(`[admin] ${actorId} force-ended convoy ${id}`);
+    return convoy;
+  }
+
+  // Takes a convoy down entirely: it stops being live and disappears from listings
+  async takeDownConvoy(actorId: string, id: string): Promise<void> {
+    const convoy = await this.findConvoy(id);
+
+    if (convoy.isLive) {
+      convoy.isLive = false;
+      convoy.endedAt = new Date();
+    }
+    convoy.deletedAt = new Date();
+    await convoy.save();
+    realtimeService.closeConvoy(id);
+
+    console.log(`[admin] ${actorId} took down convoy ${id}`);
+  }
+
+  async deleteMessage(actorId: string, id: string): Promise<void> {
+    const message = Types.ObjectId.isValid(id)
+      ? await Message.findOne({ _id: id, deletedAt: null })
+      : null;
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    await message.softDelete();
+    await messageService.announceDeleted(message);
+    console.log(`[admin] ${actorId} deleted message ${id}`);
+  }
+
+  async getStats(): Promise<PlatformStats> {
+    const now = new Date();
+    const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+
+    const [
+      usersTotal,
+      usersActive,
+      usersSuspended,
+      usersPendingDeletion,
+      convoysTotal,
+      convoysLive,
+      threadsTotal,
+      messagesTotal,
+      messagesRecent
+    ] = await Promise.all([
+      User.countDocuments({ deletedAt: null }),
+      User.countDocuments({ deletedAt: null, lastSeenAt: { $gte: dayAgo } }),
+      User.countDocuments({
+        deletedAt: null,
+        suspendedAt: { $ne: null },
+        $or: [{ suspendedUntil: null }, { suspendedUntil: { $gt: now } }]
+      }),
+      User.countDocuments({ deletedAt: null, deletionScheduledFor: { $ne: null } }),
+      Convoy.countDocuments({ deletedAt: null }),
+      Convoy.countDocuments({ deletedAt: null, isLive: true }),
+      Thread.countDocuments({ deletedAt: null }),
+      Message.countDocuments({ deletedAt: null }),
+      Message.countDocuments({ deletedAt: null, createdAt: { $gte: dayAgo } })
+    ]);
+
+    return {
+      users: {
+        total: usersTotal,
+        activeLast24h: usersActive,
+        suspended: usersSuspended,
+        pendingDeletion: usersPendingDeletion
+      },
+      convoys: { total: convoysTotal, live: convoysLive },
+      threads: { total: threadsTotal },
+      messages: { total: messagesTotal, last24h: messagesRecent },
+      presence: presenceService.getCounts()
+    };
+  }
+
+  // Moderators may only act on regular users; admins on anyone but themselves
+  private async findTarget(actor: { id: string; role: UserRole }, id: string): Promise<IUserDoc> {
+    const user = Types.ObjectId.isValid(id)
+      ? await User.findOne({ _id: id, deletedAt: null })
+      : null;
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user._id.equals(actor.id) || (actor.role !== 'admin' && hasRole(user.role, actor.role))) {
+      throw new Error('Insufficient privileges for this user');
+    }
+
+    return user;
+  }
+
+  private async findConvoy(id: string): Promise<IConvoyDoc> {
+    const convoy = Types.ObjectId.isValid(id)
+      ? await Convoy.findOne({ _id: id, deletedAt: null })
+      : null;
+    if (!convoy) {
+      throw new Error('Convoy not found');
+    }
+    return convoy;
+  }
+}
+
+export const adminService = new AdminService();
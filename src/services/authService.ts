@@ -1,17 +1,32 @@
-import jwt from 'jsonwebtoken';
-import type { Secret, SignOptions, JwtPayload } from 'jsonwebtoken';
+import crypto from 'crypto';
+import { decodeJwt, type JWTPayload } from 'jose';
 import { Types } from 'mongoose';
-import { User } from '../models/User.js';
-import type { TokenPayload } from '../types/auth.js';
-
-// Helper: grab the exact allowed type for expiresIn
-type JwtExpires = NonNullable<SignOptions['expiresIn']>;
+import { v4 as uuidv4 } from 'uuid';
+import { User, type IUserDoc } from '../models/User.js';
+import { RefreshSession } from '../models/RefreshSession.js';
+import { PasswordResetToken } from '../models/PasswordResetToken.js';
+import { MagicLinkToken } from '../models/MagicLinkToken.js';
+import { PersonalAccessToken } from '../models/PersonalAccessToken.js';
+import { mailer } from './mailer.js';
+import { emailVerificationService } from './emailVerificationService.js';
+import { twoFactorService } from './twoFactorService.js';
+import { loginThrottleService } from './loginThrottleService.js';
+import { oidcService } from './oidcService.js';
+import { jwtKeyStore } from './jwtKeyStore.js';
+import { accountDeletionService } from './accountDeletionService.js';
+import { passwordPolicy } from './passwordPolicy.js';
+import { principalCache } from './principalCache.js';
+import { usernameService } from './usernameService.js';
+import { realtimeService, SESSION_REVOKED } from './realtimeService.js';
+import type { TokenPayload, SessionContext } from '../types/auth.js';
 
 export interface AuthResult {
   user: {
     id: string;
     email: string;
     username: string;
+    emailVerified: boolean;
+    role: string;
     avatarUrl?: string;
     bio?: string;
     settings: any;
@@ -21,24 +36,41 @@ export interface AuthResult {
   refreshToken: string;
 }
 
+// Returned by login instead of an AuthResult when the account has 2FA enabled
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+const MAGIC_CODE_MAX_ATTEMPTS = 5;
+
+interface MfaChallengePayload {
+  userId: string;
+  type: 'mfa';
+}
+
 class AuthService {
-  private accessSecret: Secret;
-  private refreshSecret: Secret;
-  private accessExpiry: JwtExpires;
-  private refreshExpiry: JwtExpires;
+  private accessExpiry: string;
+  private refreshExpiry: string;
+  private appOrigin: string;
+  private resetTokenTtlMinutes: number;
+  private resetMaxPerHour: number;
+  private magicLinkTtlMinutes: number;
+  private magicLinkCooldownMs: number;
+  private magicLinkMaxPerHour: number;
 
   constructor() {
-    this.accessSecret = process.env.JWT_ACCESS_SECRET || 'dev_access';
-    this.refreshSecret = process.env.JWT_REFRESH_SECRET || 'dev_refresh';
-    this.accessExpiry = (process.env.JWT_ACCESS_EXPIRES_IN as JwtExpires) ?? '15m';
-    this.refreshExpiry = (process.env.JWT_REFRESH_EXPIRES_IN as JwtExpires) ?? '7d';
-
-    if (this.accessSecret === 'dev_access' || this.refreshSecret === 'dev_refresh') {
-      console.warn('⚠️  Using fallback JWT secrets! Set JWT_ACCESS_SECRET and JWT_REFRESH_SECRET in production.');
-    }
+    this.accessExpiry = process.env.JWT_ACCESS_EXPIRES_IN ?? '15m';
+    this.refreshExpiry = process.env.JWT_REFRESH_EXPIRES_IN ?? '7d';
+    this.appOrigin = process.env.APP_ORIGIN || 'http://localhost:8080';
+    this.resetTokenTtlMinutes = Number(process.env.PASSWORD_RESET_TTL_MINUTES || 30);
+    this.resetMaxPerHour = Number(process.env.PASSWORD_RESET_MAX_SENDS_PER_HOUR || 5);
+    this.magicLinkTtlMinutes = Number(process.env.MAGIC_LINK_TTL_MINUTES || 15);
+    this.magicLinkCooldownMs = Number(process.env.MAGIC_LINK_RESEND_COOLDOWN_SECONDS || 60) * 1000;
+    this.magicLinkMaxPerHour = Number(process.env.MAGIC_LINK_MAX_SENDS_PER_HOUR || 5);
   }
 
-  async register(email: string, username: string, password: string): Promise<AuthResult> {
+  async register(email: string, username: string, password: string, context: SessionContext = {}): Promise<AuthResult> {
     // Check if user already exists
     const existingUser = await User.findOne({
       $or: [
@@ -54,6 +86,13 @@ class AuthService {
       throw new Error('Username already taken');
     }
 
+    // Names given up recently stay reserved for their previous owner
+    if (!(await usernameService.isAvailable(username))) {
+      throw new Error('Username already taken');
+    }
+
+    await passwordPolicy.assertAcceptable(password, { email, username });
+
     // Hash password
     const passwordHash = await User.hashPassword(password);
 
@@ -64,14 +103,14 @@ class AuthService {
       passwordHash
     });
 
-    // Generate tokens
-    const { accessToken, refreshToken } = this.generateTokens({
-      userId: user._id.toString(),
-      email: user.email,
-      username: user.username,
-      type: 'access'
+    // Registration succeeds even if the verification email can't be sent; the user can resend
+    await emailVerificationService.sendVerification(user).catch((error) => {
+      console.error('Failed to send verification email', error);
     });
 
+    // Start a refresh session and generate tokens
+    const { accessToken, refreshToken } = await this.createSession(user, context);
+
     return {
       user: this.sanitizeUser(user),
       accessToken,
@@ -79,7 +118,9 @@ class AuthService {
     };
   }
 
-  async login(emailOrUsername: string, password: string): Promise<AuthResult> {
+  async login(emailOrUsername: string, password: string, context: SessionContext = {}): Promise<AuthResult | MfaChallenge> {
+    await loginThrottleService.assertAllowed(emailOrUsername, context.ip);
+
     // Find user by email or username
     const user = await User.findOne({
       $or: [
@@ -89,26 +130,229 @@ class AuthService {
       deletedAt: null
     });
 
-    if (!user) {
+    // Verify password
+    const isValidPassword = user ? await user.comparePassword(password) : false;
+    if (!user || !isValidPassword) {
+      await loginThrottleService.recordFailure(emailOrUsername, context.ip);
       throw new Error('Invalid credentials');
     }
 
-    // Verify password
-    const isValidPassword = await user.comparePassword(password);
-    if (!isValidPassword) {
-      throw new Error('Invalid credentials');
+    // Counters are left alone until the second factor is done so a known
+    // password can't reset code guessing
+    if (!user.twoFactor?.enabled) {
+      await loginThrottleService.recordSuccess(emailOrUsername);
+    }
+
+    return this.finishFirstFactor(user, context);
+  }
+
+  // Signs in with an ID token from an external OpenID Connect provider, linking
+  // the identity to the account with the same verified email or creating one
+  async loginWithOidc(
+    provider: string,
+    idToken: string,
+    context: SessionContext = {},
+    preferredUsername?: string
+  ): Promise<AuthResult | MfaChallenge> {
+    const identity = await oidcService.verifyIdToken(provider, idToken);
+
+    let user = await User.findByIdentity(identity.provider, identity.subject);
+
+    if (!user) {
+      if (!identity.email) {
+        throw new Error('ID token has no email');
+      }
+
+      // An address the provider hasn't verified can't claim or create an account;
+      // otherwise anyone could register someone else's email with a lax provider
+      if (!identity.emailVerified) {
+        throw new Error('ID token email not verified');
+      }
+
+      const existing = await User.findByEmail(identity.email);
+      if (existing) {
+        existing.identities.push({ provider: identity.provider, subject: identity.subject, linkedAt: new Date() });
+        if (!existing.emailVerifiedAt) {
+          existing.emailVerifiedAt = new Date();
+        }
+        await existing.save();
+        await principalCache.invalidate(existing._id);
+        user = existing;
+      } else {
+        user = await User.create({
+          email: identity.email,
+          username: await this.generateUsername(preferredUsername || identity.email.split('@')[0] || 'driver'),
+          // Federated accounts have no usable password until one is set via reset
+          passwordHash: await User.hashPassword(crypto.randomBytes(32).toString('hex')),
+          emailVerifiedAt: new Date(),
+          identities: [{ provider: identity.provider, subject: identity.subject, linkedAt: new Date() }]
+        });
+      }
+    }
+
+    return this.finishFirstFactor(user, context);
+  }
+
+  // Emails a one-time sign-in link plus a 6-digit code for typing on another
+  // device. Unknown emails and throttled requests are dropped silently so the
+  // response never reveals whether an account exists.
+  async requestMagicLink(email: string): Promise<void> {
+    const user = await User.findByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const latest = await MagicLinkToken.findLatest(user._id);
+    if (latest && Date.now() - latest.createdAt.getTime() < this.magicLinkCooldownMs) {
+      return;
+    }
+
+    const sentLastHour = await MagicLinkToken.countRecent(user._id, new Date(Date.now() - 60 * 60 * 1000));
+    if (sentLastHour >= this.magicLinkMaxPerHour) {
+      return;
+    }
+
+    const { token, code } = await MagicLinkToken.issue(user._id, this.magicLinkTtlMinutes);
+    const link = `${this.appOrigin}/magic-login?token=${encodeURIComponent(token)}`;
+
+    await mailer.send({
+      to: user.email,
+      subject: 'Your Armada sign-in link',
+      text: [
+        `Hi ${user.username},`,
+        '',
+        'Open the link below to sign in to Armada:',
+        link,
+        '',
+        `Or enter this code in the app: ${code}`,
+        '',
+        `The link and code expire in ${this.magicLinkTtlMinutes} minutes and work once.`,
+        "If you didn't request this, you can ignore this email."
+      ].join('\n')
+    }).catch((error) => {
+      console.error('Failed to send magic link email', error);
+    });
+  }
+
+  async loginWithMagicLink(token: string, context: SessionContext = {}): Promise<AuthResult | MfaChallenge> {
+    const grant = await MagicLinkToken.consumeToken(token);
+    if (!grant) {
+      throw new Error('Invalid or expired login link');
+    }
+
+    const user = await User.findOne({ _id: grant.userId, deletedAt: null });
+    if (!user) {
+      throw new Error('Invalid or expired login link');
+    }
+
+    return this.finishMagicLogin(user, context);
+  }
+
+  async loginWithMagicCode(email: string, code: string, context: SessionContext = {}): Promise<AuthResult | MfaChallenge> {
+    // Six digits are guessable, so wrong codes count like wrong passwords on
+    // top of the per-grant attempt cap
+    await loginThrottleService.assertAllowed(email, context.ip);
+
+    const user = await User.findByEmail(email);
+    const grant = user ? await MagicLinkToken.consumeCode(user._id, code, MAGIC_CODE_MAX_ATTEMPTS) : null;
+    if (!user || !grant) {
+      await loginThrottleService.recordFailure(email, context.ip);
+      throw new Error('Invalid or expired login code');
+    }
+
+    if (!user.twoFactor?.enabled) {
+      await loginThrottleService.recordSuccess(email);
+    }
+
+    return this.finishMagicLogin(user, context);
+  }
+
+  // Redeeming a grant proves control of the mailbox, which also verifies it
+  private async finishMagicLogin(user: IUserDoc, context: SessionContext): Promise<AuthResult | MfaChallenge> {
+    if (!user.emailVerifiedAt) {
+      user.emailVerifiedAt = new Date();
+      await user.save();
+      await principalCache.invalidate(user._id);
+    }
+
+    return this.finishFirstFactor(user, context);
+  }
+
+  async completeMfaLogin(mfaToken: string, code: string, context: SessionContext = {}): Promise<AuthResult> {
+    let payload: MfaChallengePayload;
+    try {
+      payload = await jwtKeyStore.verify<MfaChallengePayload>('mfa', mfaToken);
+    } catch (error) {
+      throw new Error('Invalid MFA challenge');
+    }
+
+    if (payload.type !== 'mfa') {
+      throw new Error('Invalid MFA challenge');
+    }
+
+    const user = await User.findOne({ _id: payload.userId, deletedAt: null });
+    if (!user) {
+      throw new Error('Invalid MFA challenge');
+    }
+
+    // Second-factor guesses count against the account like password guesses
+    await loginThrottleService.assertAllowed(user.email, context.ip);
+    if (!(await twoFactorService.verifyForUser(payload.userId, code))) {
+      await loginThrottleService.recordFailure(user.email, context.ip);
+      throw new Error('Invalid two-factor code');
+    }
+
+    await loginThrottleService.recordSuccess(user.email);
+
+    // Suspended since the challenge was issued
+    if (user.isSuspended()) {
+      throw new Error('Account suspended');
+    }
+
+    return this.completeLogin(user, context);
+  }
+
+  // Second step required for 2FA accounts; tokens are then only issued by completeMfaLogin
+  private async finishFirstFactor(user: IUserDoc, context: SessionContext): Promise<AuthResult | MfaChallenge> {
+    if (user.isSuspended()) {
+      throw new Error('Account suspended');
     }
 
+    if (user.twoFactor?.enabled) {
+      const challenge: MfaChallengePayload = { userId: user._id.toString(), type: 'mfa' };
+      return {
+        mfaRequired: true,
+        mfaToken: await jwtKeyStore.sign('mfa', { ...challenge }, '5m')
+      };
+    }
+
+    return this.completeLogin(user, context);
+  }
+
+  // Turns an arbitrary name into a free username matching the registration rules
+  private async generateUsername(base: string): Promise<string> {
+    const cleaned = base.toLowerCase().replace(/[^a-z0-9_]/g, '').slice(0, 24);
+    const stem = cleaned.length >= 3 ? cleaned : `driver${cleaned}`;
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const candidate = attempt === 0 ? stem : `${stem}_${crypto.randomInt(1000, 10000)}`;
+      if (await usernameService.isAvailable(candidate)) {
+        return candidate;
+      }
+    }
+
+    return `${stem}_${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  private async completeLogin(user: IUserDoc, context: SessionContext): Promise<AuthResult> {
+    // Signing in during the deletion grace period keeps the account
+    await accountDeletionService.cancelDeletion(user);
+
     // Update last seen
     await user.updateLastSeen();
 
-    // Generate tokens
-    const { accessToken, refreshToken } = this.generateTokens({
-      userId: user._id.toString(),
-      email: user.email,
-      username: user.username,
-      type: 'access'
-    });
+    // Start a refresh session and generate tokens
+    const { accessToken, refreshToken } = await this.createSession(user, context);
 
     return {
       user: this.sanitizeUser(user),
@@ -118,38 +362,82 @@ class AuthService {
   }
 
   async refreshToken(refreshToken: string): Promise<{ accessToken: string; refreshToken: string }> {
+    let payload: TokenPayload;
     try {
-      const payload = jwt.verify(refreshToken, this.refreshSecret) as TokenPayload;
-      
-      if (payload.type !== 'refresh') {
-        throw new Error('Invalid token type');
-      }
+      payload = await jwtKeyStore.verify<TokenPayload>('refresh', refreshToken);
+    } catch (error) {
+      throw new Error('Invalid refresh token');
+    }
 
-      // Verify user still exists and is active
-      const user = await User.findById(payload.userId).select('email username');
-      if (!user) {
-        throw new Error('User not found');
-      }
+    if (payload.type !== 'refresh' || !payload.sessionId || !payload.tokenId) {
+      throw new Error('Invalid refresh token');
+    }
 
-      // Generate new tokens
-      return this.generateTokens({
-        userId: user._id.toString(),
-        email: user.email,
-        username: user.username,
-        type: 'access'
-      });
-    } catch (error) {
+    const session = await RefreshSession.findByFamily(payload.sessionId);
+    if (!session || !session.isActive()) {
       throw new Error('Invalid refresh token');
     }
+
+    // Verify user still exists and is active
+    const user = await User.findOne({ _id: session.userId, deletedAt: null }).select('email username suspendedAt suspendedUntil');
+    if (!user) {
+      await session.revoke('user_deleted');
+      throw new Error('Invalid refresh token');
+    }
+
+    if (user.isSuspended()) {
+      await session.revoke('user_suspended');
+      throw new Error('Account suspended');
+    }
+
+    // Rotate: the presented token must be the family's current one, and it is
+    // consumed by this call. Anything else is a replay of an already-used token.
+    const nextTokenId = uuidv4();
+    const tokens = await this.generateTokens({
+      userId: user._id.toString(),
+      email: user.email,
+      username: user.username,
+      type: 'access',
+      sessionId: session.familyId,
+      tokenId: nextTokenId
+    });
+
+    const rotated = await RefreshSession.rotate(
+      session.familyId,
+      payload.tokenId,
+      nextTokenId,
+      this.getTokenExpiry(tokens.refreshToken)
+    );
+
+    if (!rotated) {
+      await RefreshSession.revokeFamily(session.familyId, 'reuse_detected');
+      await principalCache.invalidate(user._id);
+      realtimeService.disconnectSession(session.familyId, SESSION_REVOKED);
+      console.warn(`Refresh token reuse detected for user ${user._id.toString()}, session family revoked`);
+      throw new Error('Refresh token reuse detected');
+    }
+
+    return tokens;
+  }
+
+  async logout(userId: string, sessionId: string): Promise<void> {
+    await RefreshSession.revokeFamily(sessionId, 'logout');
+    await principalCache.invalidate(userId);
+    realtimeService.disconnectSession(sessionId, SESSION_REVOKED);
   }
 
+  // Also rejects tokens whose session has been signed out, so revoking a
+  // session ends its access tokens too, not just its refresh token
   async verifyAccessToken(token: string): Promise<TokenPayload> {
     try {
-      const payload = jwt.verify(token, this.accessSecret) as TokenPayload;
+      const payload = await jwtKeyStore.verify<TokenPayload>('access', token);
       
-      if (payload.type !== 'access') {
+      if (payload.type !== 'access' || !payload.sessionId) {
         throw new Error('Invalid token type');
       }
+      if (!(await principalCache.hasSession(payload.userId, payload.sessionId))) {
+        throw new Error('Session revoked');
+      }
 
       return payload;
     } catch (error) {
@@ -157,7 +445,15 @@ class AuthService {
     }
   }
 
-  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+  // Signs out every other session, with its access tokens and sockets, and
+  // revokes personal access tokens; the session making the change stays signed in
+  async changePassword(
+    userId: string,
+    currentSessionId: string | undefined,
+    currentPassword: string,
+    newPassword: string,
+    code?: string
+  ): Promise<void> {
     const user = await User.findById(userId);
     if (!user) {
       throw new Error('User not found');
@@ -169,10 +465,26 @@ class AuthService {
       throw new Error('Current password is incorrect');
     }
 
+    if (user.twoFactor?.enabled) {
+      if (!code) {
+        throw new Error('Two-factor code required');
+      }
+      if (!(await twoFactorService.verifyForUser(userId, code))) {
+        throw new Error('Invalid two-factor code');
+      }
+    }
+
+    await passwordPolicy.assertAcceptable(newPassword, { email: user.email, username: user.username });
+
     // Hash new password
     const newPasswordHash = await User.hashPassword(newPassword);
     user.passwordHash = newPasswordHash;
     await user.save();
+
+    await RefreshSession.revokeUserSessions(user._id, 'password_changed', currentSessionId);
+    await PersonalAccessToken.revokeUserTokens(user._id);
+    await principalCache.invalidate(user._id);
+    realtimeService.disconnectUser(user.id, SESSION_REVOKED, currentSessionId);
   }
 
   async resetPassword(email: string): Promise<void> {
@@ -182,31 +494,114 @@ class AuthService {
       return;
     }
 
-    // TODO: Implement email sending for password reset
-    // For now, just log the reset request
-    console.log(`Password reset requested for: ${email}`);
+    // Over the cap the request is dropped just as quietly, so the endpoint
+    // can't be used to flood someone's inbox
+    const sentLastHour = await PasswordResetToken.countRecent(user._id, new Date(Date.now() - 60 * 60 * 1000));
+    if (sentLastHour >= this.resetMaxPerHour) {
+      return;
+    }
+
+    const token = await PasswordResetToken.issue(user._id, this.resetTokenTtlMinutes);
+    const link = `${this.appOrigin}/reset-password?token=${encodeURIComponent(token)}`;
+
+    // Delivery failures are logged rather than surfaced, which would reveal that the email exists
+    await mailer.send({
+      to: user.email,
+      subject: 'Reset your Armada password',
+      text: [
+        `Hi ${user.username},`,
+        '',
+        'We received a request to reset your password. Open the link below to choose a new one:',
+        link,
+        '',
+        `This link expires in ${this.resetTokenTtlMinutes} minutes and can only be used once.`,
+        "If you didn't request this, you can ignore this email."
+      ].join('\n')
+    }).catch((error) => {
+      console.error('Failed to send password reset email', error);
+    });
   }
 
-  private generateTokens(payload: TokenPayload): { accessToken: string; refreshToken: string } {
-    const accessPayload: TokenPayload = { ...payload, type: 'access' };
-    const refreshPayload: TokenPayload = { ...payload, type: 'refresh' };
+  async confirmPasswordReset(token: string, newPassword: string): Promise<void> {
+    const pending = await PasswordResetToken.findValid(token);
+    const user = pending ? await User.findOne({ _id: pending.userId, deletedAt: null }) : null;
+    if (!user) {
+      throw new Error('Invalid or expired reset token');
+    }
 
-    const accessOpts: SignOptions = { expiresIn: this.accessExpiry };
-    const refreshOpts: SignOptions = { expiresIn: this.refreshExpiry };
+    // Checked before consuming so a rejected password doesn't burn the link
+    await passwordPolicy.assertAcceptable(newPassword, { email: user.email, username: user.username });
 
-    const accessToken = jwt.sign(accessPayload as JwtPayload, this.accessSecret, accessOpts);
-    const refreshToken = jwt.sign(refreshPayload as JwtPayload, this.refreshSecret, refreshOpts);
+    if (!(await PasswordResetToken.consume(token))) {
+      throw new Error('Invalid or expired reset token');
+    }
+
+    user.passwordHash = await User.hashPassword(newPassword);
+    await user.save();
+
+    // Whoever held the old password may also hold live sessions
+    await RefreshSession.revokeUserSessions(user._id, 'password_changed');
+    await PersonalAccessToken.revokeUserTokens(user._id);
+    await PasswordResetToken.invalidateUserTokens(user._id);
+    await principalCache.invalidate(user._id);
+    realtimeService.disconnectUser(user.id, SESSION_REVOKED);
+  }
+
+  private async createSession(user: IUserDoc, context: SessionContext): Promise<{ accessToken: string; refreshToken: string }> {
+    const familyId = uuidv4();
+    const tokenId = uuidv4();
+
+    const tokens = await this.generateTokens({
+      userId: user._id.toString(),
+      email: user.email,
+      username: user.username,
+      type: 'access',
+      sessionId: familyId,
+      tokenId
+    });
+
+    await RefreshSession.create({
+      userId: user._id,
+      familyId,
+      currentTokenId: tokenId,
+      userAgent: context.userAgent?.slice(0, 500),
+      ip: context.ip,
+      deviceId: context.deviceId,
+      platform: context.platform,
+      appVersion: context.appVersion,
+      expiresAt: this.getTokenExpiry(tokens.refreshToken)
+    });
+    await principalCache.invalidate(user._id);
+
+    return tokens;
+  }
+
+  private async generateTokens(payload: TokenPayload): Promise<{ accessToken: string; refreshToken: string }> {
+    // Only the refresh token needs the one-time token id
+    const { tokenId, ...accessClaims } = payload;
+    const accessPayload: TokenPayload = { ...accessClaims, type: 'access' };
+    const refreshPayload: TokenPayload = { ...payload, type: 'refresh' };
+
+    const accessToken = await jwtKeyStore.sign('access', { ...accessPayload }, this.accessExpiry);
+    const refreshToken = await jwtKeyStore.sign('refresh', { ...refreshPayload }, this.refreshExpiry);
 
     return { accessToken, refreshToken };
   }
 
-  private sanitizeUser(user: any): AuthResult['user'] {
+  private getTokenExpiry(token: string): Date {
+    const decoded: JWTPayload = decodeJwt(token);
+    return new Date((decoded.exp ?? 0) * 1000);
+  }
+
+  private sanitizeUser(user: IUserDoc): AuthResult['user'] {
     return {
       id: user._id.toString(),
       email: user.email,
       username: user.username,
-      avatarUrl: user.avatarUrl,
-      bio: user.bio,
+      emailVerified: Boolean(user.emailVerifiedAt),
+      role: user.role,
+      ...(user.avatarUrl !== undefined ? { avatarUrl: user.avatarUrl } : {}),
+      ...(user.bio !== undefined ? { bio: user.bio } : {}),
       settings: user.settings,
       stats: user.stats
     };
@@ -0,0 +1,62 @@
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { Convoy, type IConvoyDoc } from '../models/Convoy.js';
+import { User } from '../models/User.js';
+import { toGeoPoint } from '../models/geo.js';
+import { realtimeService } from './realtimeService.js';
+
+export const locationUpdateSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  heading: z.number().min(0).max(360).optional(),
+  speed: z.number().min(0).optional(),
+  accuracy: z.number().min(0).optional()
+});
+
+export type LocationUpdate = z.infer<typeof locationUpdateSchema>;
+
+class ConvoyLocationService {
+  // Throws 'Convoy not found' or 'Not a convoy member'
+  async findMemberConvoy(userId: string, convoyId: string): Promise<IConvoyDoc> {
+    const convoy = Types.ObjectId.isValid(convoyId)
+      ? await Convoy.findOne({ _id: convoyId, deletedAt: null })
+      : null;
+    if (!convoy) {
+      throw new Error('Convoy not found');
+    }
+    if (!convoy.isMember(new Types.ObjectId(userId))) {
+      throw new Error('Not a convoy member');
+    }
+    return convoy;
+  }
+
+  // Shared by POST /convoys/:id/location and the presence socket: persists the
+  // ping on the convoy and the user, then fans it out to the convoy room
+  async updateLocation(userId: string, convoyId: string, location: LocationUpdate): Promise<void> {
+    const convoy = await this.findMemberConvoy(userId, convoyId);
+    const updatedAt = new Date();
+
+    await convoy.updateLocation(location.lat, location.lng, location.heading, location.speed, location.accuracy);
+
+    await User.findByIdAndUpdate(userId, {
+      $set: {
+        location: {
+          ...toGeoPoint(location.lat, location.lng),
+          heading: location.heading,
+          speed: location.speed,
+          updatedAt
+        }
+      }
+    });
+
+    realtimeService.emitToConvoy(
+      convoyId,
+      convoy.members.map(id => id.toString()),
+      'location:update',
+      { convoyId, userId, ...location, updatedAt },
+      `location:${convoyId}:${userId}`
+    );
+  }
+}
+
+export const convoyLocationService = new ConvoyLocationService();
@@ -0,0 +1,397 @@
+import { Readable, type Writable } from 'stream';
+import archiver from 'archiver';
+import mongoose, { Types } from 'mongoose';
+import { DataExport, type IDataExportDoc } from '../models/DataExport.js';
+import { User, type IUser, type IUserDoc } from '../models/User.js';
+import { Convoy } from '../models/Convoy.js';
+import { Thread } from '../models/Thread.js';
+import { Message } from '../models/Message.js';
+import { FriendRequest } from '../models/FriendRequest.js';
+import { Notification } from '../models/Notification.js';
+import { DeviceToken } from '../models/DeviceToken.js';
+import { latLngOf } from '../models/geo.js';
+import { mailer } from './mailer.js';
+import { usernameService } from './usernameService.js';
+import { notificationService } from './notificationService.js';
+
+export interface DataExportSummary {
+  id: string;
+  status: string;
+  createdAt: Date;
+  readyAt?: Date;
+  expiresAt?: Date;
+  size?: number;
+}
+
+export interface DataExportDownload {
+  stream: Readable;
+  size: number;
+}
+
+const BUCKET_NAME = 'data_exports';
+
+interface GpxPoint {
+  lat: number;
+  lng: number;
+  name?: string | undefined;
+  time?: Date | undefined;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function gpxPoint(tag: 'wpt' | 'rtept', point: GpxPoint): string {
+  const children = [
+    point.time ? `<time>${point.time.toISOString()}</time>` : '',
+    point.name ? `<name>${escapeXml(point.name)}</name>` : ''
+  ].join('');
+  return `    <${tag} lat="${point.lat}" lon="${point.lng}">${children}</${tag}>`;
+}
+
+function gpxDocument(body: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Armada" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...body,
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) + '\n';
+}
+
+// Streams a cursor as a JSON array so large collections never sit in memory
+async function* jsonArray(cursor: AsyncIterable<unknown>): AsyncGenerator<string> {
+  let first = true;
+  yield '[';
+  for await (const doc of cursor) {
+    yield (first ? '\n  ' : ',\n  ') + JSON.stringify(doc);
+    first = false;
+  }
+  yield first ? ']\n' : '\n]\n';
+}
+
+// Archives live in GridFS, so every instance can serve and expire them
+class DataExportService {
+  private ttlMs: number;
+  private maxPerDay: number;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+
+  constructor() {
+    this.ttlMs = Number(process.env.DATA_EXPORT_TTL_HOURS || 72) * 60 * 60 * 1000;
+    this.maxPerDay = Number(process.env.DATA_EXPORT_MAX_PER_DAY || 3);
+  }
+
+  // Queues an export, or returns the one already in flight
+  async requestExport(userId: string): Promise<DataExportSummary> {
+    const userObjectId = new Types.ObjectId(userId);
+
+    const active = await DataExport.findActiveForUser(userObjectId);
+    if (active) {
+      return this.summarize(active);
+    }
+
+    const recent = await DataExport.countRecent(userObjectId, new Date(Date.now() - 24 * 60 * 60 * 1000));
+    if (recent >= this.maxPerDay) {
+      throw new Error('Export limit reached');
+    }
+
+    const dataExport = await DataExport.create({ userId: userObjectId });
+    setImmediate(() => this.drain());
+
+    return this.summarize(dataExport);
+  }
+
+  async getExport(userId: string, id: string): Promise<DataExportSummary> {
+    return this.summarize(await this.findUserExport(userId, id));
+  }
+
+  // Stream of a ready archive, for the download endpoint
+  async openDownload(userId: string, id: string): Promise<DataExportDownload> {
+    const dataExport = await this.findUserExport(userId, id);
+
+    if (dataExport.status === 'expired' || (dataExport.expiresAt && dataExport.expiresAt <= new Date())) {
+      throw new Error('Export expired');
+    }
+    if (dataExport.status !== 'ready' || !dataExport.fileId) {
+      throw new Error('Export not ready');
+    }
+
+    return {
+      stream: this.bucket().openDownloadStream(dataExport.fileId),
+      size: dataExport.size ?? 0
+    };
+  }
+
+  // Removes a user's archives and records, e.g. when the account is purged
+  async deleteUserExports(userId: Types.ObjectId): Promise<void> {
+    const exports = await DataExport.find({ userId, fileId: { $ne: null } }).select('fileId').lean();
+    for (const dataExport of exports) {
+      await this.removeFile(dataExport.fileId);
+    }
+    await DataExport.deleteMany({ userId });
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.runMaintenance().catch((error) => {
+        console.error('[exports] maintenance failed', error);
+      });
+    };
+
+    this.timer = setInterval(run, 10 * 60 * 1000);
+    this.timer.unref();
+    run();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runMaintenance(): Promise<void> {
+    await DataExport.requeueStale(new Date(Date.now() - 60 * 60 * 1000));
+
+    const expired = await DataExport.find({ status: 'ready', expiresAt: { $lte: new Date() } });
+    for (const dataExport of expired) {
+      await this.removeFile(dataExport.fileId);
+      dataExport.status = 'expired';
+      dataExport.fileId = null;
+      await dataExport.save();
+    }
+
+    await this.drain();
+  }
+
+  // Builds pending exports one at a time; concurrent callers share the same run
+  private drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = (async () => {
+        let next: IDataExportDoc | null;
+        while ((next = await DataExport.findOne({ status: 'pending' }).sort({ createdAt: 1 }))) {
+          const claimed = await DataExport.claim(next._id);
+          if (claimed) {
+            await this.process(claimed);
+          }
+        }
+      })()
+        .catch((error) => {
+          console.error('[exports] queue failed', error);
+        })
+        .finally(() => {
+          this.draining = null;
+        });
+    }
+    return this.draining;
+  }
+
+  private async process(dataExport: IDataExportDoc): Promise<void> {
+    const upload = this.bucket().openUploadStream(`${dataExport._id.toString()}.zip`, {
+      contentType: 'application/zip',
+      metadata: { userId: dataExport.userId, exportId: dataExport._id }
+    });
+
+    try {
+      await this.writeArchive(dataExport.userId, upload);
+
+      const expiresAt = new Date(Date.now() + this.ttlMs);
+
+      dataExport.status = 'ready';
+      dataExport.fileId = upload.id;
+      dataExport.size = upload.length;
+      dataExport.readyAt = new Date();
+      dataExport.expiresAt = expiresAt;
+      await dataExport.save();
+
+      await this.notifyReady(dataExport, expiresAt);
+    } catch (error: any) {
+      console.error(`[exports] export ${dataExport._id.toString()} failed`, error);
+      // Drops the chunks written so far, or the whole file if the upload completed
+      await upload.abort()
+        .catch(() => this.removeFile(upload.id))
+        .catch((cleanupError) => {
+          console.error(`[exports] could not remove archive of ${dataExport._id.toString()}`, cleanupError);
+        });
+      dataExport.status = 'failed';
+      dataExport.error = String(error?.message || error).slice(0, 500);
+      await dataExport.save();
+    }
+  }
+
+  private async writeArchive(userId: Types.ObjectId, output: Writable): Promise<void> {
+    const user = await User.findById(userId).populate('friends blocked', 'username');
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const written = new Promise<void>((resolve, reject) => {
+      output.on('finish', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+    // A stream can fail while data is still being gathered; that surfaces at
+    // `await written` instead of as an unhandled rejection
+    written.catch(() => {});
+    archive.pipe(output);
+
+    try {
+      await this.appendUserData(archive, userId, user);
+      await archive.finalize();
+      await written;
+    } catch (error) {
+      archive.abort();
+      output.destroy();
+      throw error;
+    }
+  }
+
+  private async appendUserData(archive: archiver.Archiver, userId: Types.ObjectId, user: IUserDoc): Promise<void> {
+    const { friends, blocked, settings, ...profile } = user.toJSON<IUser>();
+
+    const usernameHistory = await usernameService.getHistory(userId.toString());
+    archive.append(toJson({ ...profile, usernameHistory }), { name: 'profile.json' });
+    archive.append(toJson(settings), { name: 'settings.json' });
+    archive.append(toJson({ friends, blocked }), { name: 'friends.json' });
+
+    const friendRequests = await FriendRequest.find({ $or: [{ from: userId }, { to: userId }] })
+      .populate('from to', 'username')
+      .sort({ createdAt: 1 })
+      .lean();
+    archive.append(toJson(friendRequests), { name: 'friend-requests.json' });
+
+    const threads = await Thread.find({ participants: userId })
+      .select('participants isGroup title convoyId lastMessageAt createdAt deletedAt')
+      .populate('participants', 'username')
+      .lean();
+    archive.append(toJson(threads), { name: 'threads.json' });
+
+    // Only the user's own messages; reactions are reduced to the emoji since
+    // who reacted belongs to other people
+    const messages = Message.find({ senderId: userId })
+      .select('threadId text media reactions.emoji editedAt deletedAt createdAt')
+      .sort({ createdAt: 1 })
+      .lean()
+      .cursor();
+    archive.append(Readable.from(jsonArray(messages)), { name: 'messages.json' });
+
+    const convoys = await Convoy.find({ $or: [{ ownerId: userId }, { members: userId }] })
+      .select('ownerId title description visibility isLive route currentCenter startedAt endedAt createdAt deletedAt')
+      .sort({ createdAt: 1 })
+      .lean();
+    archive.append(
+      toJson(convoys.map(({ ownerId, ...convoy }) => ({ ...convoy, role: ownerId.equals(userId) ? 'owner' : 'member' }))),
+      { name: 'convoys.json' }
+    );
+
+    const notifications = Notification.find({ userId }).sort({ createdAt: 1 }).lean().cursor();
+    archive.append(Readable.from(jsonArray(notifications)), { name: 'notifications.json' });
+
+    const devices = await DeviceToken.find({ userId }).lean();
+    archive.append(toJson(devices), { name: 'devices.json' });
+
+    // Location data as GPX: the last reported position and each convoy's route
+    if (user.location) {
+      archive.append(
+        gpxDocument([gpxPoint('wpt', { ...latLngOf(user.location), name: 'Last known location', time: user.location.updatedAt })]),
+        { name: 'tracks/last-location.gpx' }
+      );
+    }
+    for (const convoy of convoys) {
+      const waypoints = [...(convoy.route?.waypoints || [])].sort((a, b) => a.order - b.order);
+      if (waypoints.length === 0) {
+        continue;
+      }
+      archive.append(
+        gpxDocument([
+          '  <rte>',
+          `    <name>${escapeXml(convoy.title || 'Convoy route')}</name>`,
+          ...waypoints.map(waypoint => gpxPoint('rtept', waypoint)),
+          '  </rte>'
+        ]),
+        { name: `tracks/convoy-${convoy._id.toString()}.gpx` }
+      );
+    }
+
+    archive.append(toJson({ userId: userId.toString(), generatedAt: new Date() }), { name: 'manifest.json' });
+  }
+
+  private async notifyReady(dataExport: IDataExportDoc, expiresAt: Date): Promise<void> {
+    await notificationService.send(Notification.createDataExportReady(dataExport.userId, dataExport._id.toString(), expiresAt));
+
+    const user = await User.findById(dataExport.userId).select('email username');
+    if (!user) {
+      return;
+    }
+
+    await mailer.send({
+      to: user.email,
+      subject: 'Your Armada data export is ready',
+      text: [
+        `Hi ${user.username},`,
+        '',
+        'The copy of your Armada data you asked for is ready. Download it from the app',
+        `before ${expiresAt.toUTCString()}, after which it is deleted.`
+      ].join('\n')
+    }).catch((error) => {
+      console.error('Failed to send data export email', error);
+    });
+  }
+
+  private async findUserExport(userId: string, id: string): Promise<IDataExportDoc> {
+    const dataExport = Types.ObjectId.isValid(id)
+      ? await DataExport.findOne({ _id: id, userId: new Types.ObjectId(userId) })
+      : null;
+    if (!dataExport) {
+      throw new Error('Export not found');
+    }
+    return dataExport;
+  }
+
+  private bucket(): mongoose.mongo.GridFSBucket {
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('MongoDB is not connected');
+    }
+    return new mongoose.mongo.GridFSBucket(db, { bucketName: BUCKET_NAME });
+  }
+
+  // Deleting a file that is already gone is not an error here
+  private async removeFile(fileId: Types.ObjectId | null | undefined): Promise<void> {
+    if (!fileId) {
+      return;
+    }
+    await this.bucket().delete(fileId).catch((error: unknown) => {
+      if (!(error instanceof mongoose.mongo.MongoRuntimeError && error.message.startsWith('File not found'))) {
+        throw error;
+      }
+    });
+  }
+
+  private summarize(dataExport: IDataExportDoc): DataExportSummary {
+    return {
+      id: dataExport._id.toString(),
+      status: dataExport.status,
+      createdAt: dataExport.createdAt,
+      ...(dataExport.readyAt ? { readyAt: dataExport.readyAt } : {}),
+      ...(dataExport.expiresAt ? { expiresAt: dataExport.expiresAt } : {}),
+      ...(dataExport.size != null ? { size: dataExport.size } : {})
+    };
+  }
+}
+
+export const dataExportService = new DataExportService();
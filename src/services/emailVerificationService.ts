@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { User, type IUserDoc } from '../models/User.js';
+import { EmailVerification } from '../models/EmailVerification.js';
+import { mailer } from './mailer.js';
+import { principalCache } from './principalCache.js';
+
+const MAX_CODE_ATTEMPTS = 5;
+
+class EmailVerificationService {
+  private appOrigin: string;
+  private ttlHours: number;
+  private resendCooldownSeconds: number;
+  private maxSendsPerHour: number;
+
+  constructor() {
+    this.appOrigin = process.env.APP_ORIGIN || 'http://localhost:8080';
+    this.ttlHours = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS || 24);
+    this.resendCooldownSeconds = Number(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS || 60);
+    this.maxSendsPerHour = Number(process.env.EMAIL_VERIFICATION_MAX_SENDS_PER_HOUR || 5);
+  }
+
+  // Issues a fresh code and link and emails them, subject to the resend throttle
+  async sendVerification(user: IUserDoc): Promise<void> {
+    if (user.emailVerifiedAt) {
+      throw new Error('Email already verified');
+    }
+
+    const now = Date.now();
+    const existing = await EmailVerification.findByUser(user._id);
+
+    let sendCount = 1;
+    let windowStartedAt = new Date(now);
+
+    if (existing) {
+      const sinceLastSend = (now - existing.lastSentAt.getTime()) / 1000;
+      if (sinceLastSend < this.resendCooldownSeconds) {
+        throw Object.assign(new Error('Verification email throttled'), {
+          retryAfter: Math.ceil(this.resendCooldownSeconds - sinceLastSend)
+        });
+      }
+
+      const windowAge = (now - existing.windowStartedAt.getTime()) / 1000;
+      if (windowAge < 3600) {
+        if (existing.sendCount >= this.maxSendsPerHour) {
+          throw Object.assign(new Error('Verification email throttled'), {
+            retryAfter: Math.ceil(3600 - windowAge)
+          });
+        }
+        sendCount = existing.sendCount + 1;
+        windowStartedAt = existing.windowStartedAt;
+      }
+    }
+
+    // Both are random and only stored hashed, so nothing can be forged from a user's id or email
+    const token = crypto.randomBytes(32).toString('base64url');
+    const tokenHash = EmailVerification.hashToken(token);
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+    await EmailVerification.findOneAndUpdate(
+      { userId: user._id },
+      {
+        $set: {
+          email: user.email,
+          tokenHash,
+          codeHash: EmailVerification.hashCode(tokenHash, code),
+          expiresAt: new Date(now + this.ttlHours * 60 * 60 * 1000),
+          attempts: 0,
+          sendCount,
+          windowStartedAt,
+          lastSentAt: new Date(now)
+        }
+      },
+      { upsert: true }
+    );
+
+    const link = `${this.appOrigin}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await mailer.send({
+      to: user.email,
+      subject: 'Confirm your Armada email address',
+      text: [
+        `Hi ${user.username},`,
+        '',
+        'Confirm your email address by opening this link:',
+        link,
+        '',
+        `Or enter this code in the app: ${code}`,
+        '',
+        `The link and code expire in ${this.ttlHours} hours.`
+      ].join('\n')
+    });
+  }
+
+  async verifyToken(token: string): Promise<void> {
+    const record = await EmailVerification.findByToken(token);
+    if (!record || record.expiresAt.getTime() <= Date.now()) {
+      throw new Error('Invalid or expired verification');
+    }
+
+    const user = await User.findOne({ _id: record.userId, deletedAt: null });
+    // A link sent to a previous address must not verify the current one
+    if (!user || user.email !== record.email) {
+      throw new Error('Invalid or expired verification');
+    }
+
+    await this.markVerified(user);
+  }
+
+  async verifyCode(email: string, code: string): Promise<void> {
+    const user = await User.findByEmail(email);
+    if (!user) {
+      throw new Error('Invalid or expired verification');
+    }
+
+    if (user.emailVerifiedAt) {
+      return;
+    }
+
+    const record = await EmailVerification.claimCodeAttempt(user._id, user.email, MAX_CODE_ATTEMPTS);
+    if (!record) {
+      throw new Error('Invalid or expired verification');
+    }
+
+    const expected = Buffer.from(record.codeHash, 'hex');
+    const actual = Buffer.from(EmailVerification.hashCode(record.tokenHash, code), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      throw new Error('Invalid or expired verification');
+    }
+
+    await this.markVerified(user);
+  }
+
+  private async markVerified(user: IUserDoc): Promise<void> {
+    if (!user.emailVerifiedAt) {
+      user.emailVerifiedAt = new Date();
+      await user.save();
+      await principalCache.invalidate(user._id);
+    }
+    await EmailVerification.deleteOne({ userId: user._id });
+  }
+}
+
+export const emailVerificationService = new EmailVerificationService();
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+
+export interface LoggedEvent {
+  seq: number;
+  namespace: string;
+  event: string;
+  payload: unknown;
+  at: number;
+  coalesceKey?: string | undefined;
+}
+
+// Sent alongside each replayable event as a second argument
+export interface EventMeta {
+  stream: string;
+  seq: number;
+}
+
+export type ReplayResult =
+  | { resyncRequired: false; stream: string; seq: number; events: LoggedEvent[] }
+  | { resyncRequired: true; stream: string; seq: number };
+
+interface UserLog {
+  stream: string; // identifies this counter; a new one means earlier seqs are meaningless
+  seq: number;
+  evictedThrough: number; // highest seq dropped for age or size rather than superseded
+  events: LoggedEvent[];
+  touchedAt: number;
+}
+
+// Per-user sequence numbers and a bounded, in-memory log of recent events so
+// a reconnecting socket can catch up with `events:resume`. Events with a
+// coalesce key (e.g. a member's convoy position) keep only their latest copy.
+// When the requested point has been evicted, or the log restarted, callers
+// get resyncRequired and should refetch over REST.
+class EventLogService {
+  private logs = new Map<string, UserLog>();
+  private maxEvents: number;
+  private maxAgeMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.maxEvents = Number(process.env.EVENT_REPLAY_MAX_EVENTS || 200);
+    this.maxAgeMs = Number(process.env.EVENT_REPLAY_MAX_AGE_MINUTES || 15) * 60 * 1000;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.prune(), Math.min(this.maxAgeMs, 60 * 1000));
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  record(userId: string, namespace: string, event: string, payload: unknown, coalesceKey?: string): EventMeta {
+    const log = this.getLog(userId);
+    const seq = ++log.seq;
+    const now = Date.now();
+
+    if (coalesceKey) {
+      log.events = log.events.filter(entry => entry.coalesceKey !== coalesceKey);
+    }
+    log.events.push({ seq, namespace, event, payload, at: now, coalesceKey });
+    log.touchedAt = now;
+
+    while (log.events.length > this.maxEvents) {
+      log.evictedThrough = log.events.shift()!.seq;
+    }
+
+    return { stream: log.stream, seq };
+  }
+
+  has(userId: string): boolean {
+    return this.logs.has(userId);
+  }
+
+  // Events in `namespace` after `seq`, if the log still covers that point
+  since(userId: string, namespace: string, stream: string | undefined, seq: number): ReplayResult {
+    const log = this.getLog(userId);
+    this.trim(log, Date.now());
+
+    if (stream !== log.stream || seq > log.seq || seq < log.evictedThrough) {
+      return { resyncRequired: true, stream: log.stream, seq: log.seq };
+    }
+
+    return {
+      resyncRequired: false,
+      stream: log.stream,
+      seq: log.seq,
+      events: log.events.filter(entry => entry.seq > seq && entry.namespace === namespace)
+    };
+  }
+
+  private getLog(userId: string): UserLog {
+    let log = this.logs.get(userId);
+    if (!log) {
+      log = {
+        stream: crypto.randomBytes(8).toString('hex'),
+        seq: 0,
+        evictedThrough: 0,
+        events: [],
+        touchedAt: Date.now()
+      };
+      this.logs.set(userId, log);
+    }
+    return log;
+  }
+
+  private trim(log: UserLog, now: number) {
+    while (log.events.length > 0 && log.events[0]!.at < now - this.maxAgeMs) {
+      log.evictedThrough = log.events.shift()!.seq;
+    }
+  }
+
+  // Logs idle past the replay window are dropped entirely; the next event
+  // starts a new stream, so stale resume points get resyncRequired
+  private prune() {
+    const now = Date.now();
+    for (const [userId, log] of this.logs) {
+      this.trim(log, now);
+      if (log.events.length === 0 && log.touchedAt < now - this.maxAgeMs) {
+        this.logs.delete(userId);
+      }
+    }
+  }
+}
+
+export const eventLogService = new EventLogService();
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import type { KeyObject, JsonWebKey } from 'crypto';
+import { SignJWT, jwtVerify, type JWTPayload } from 'jose';
+
+export type JwtAlgorithm = 'RS256' | 'EdDSA';
+
+export type TokenKind = 'access' | 'refresh' | 'mfa';
+
+// `typ` header per kind. All kinds share the published keys, so services
+// verifying access tokens against the JWKS must require `at+jwt` (RFC 9068).
+const TOKEN_TYPES: Record<TokenKind, string> = {
+  access: 'at+jwt',
+  refresh: 'refresh+jwt',
+  mfa: 'mfa+jwt'
+};
+
+interface JwtKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  privateKey?: KeyObject; // absent for retired keys that only verify
+  publicKey: KeyObject;
+}
+
+// Shape of JWT_KEYS / the file at JWT_KEYS_FILE. `active` names the signing
+// key; every other listed key keeps verifying, so a rotation is: add the new
+// key, make it active, and drop the old one once its tokens have expired.
+interface JwtKeysConfig {
+  active: string;
+  keys: Array<{
+    kid: string;
+    alg?: JwtAlgorithm;
+    privateKey?: string; // PKCS#8 PEM
+    publicKey?: string; // SPKI PEM, derived from privateKey when omitted
+  }>;
+}
+
+function algorithmFor(key: KeyObject): JwtAlgorithm {
+  if (key.asymmetricKeyType === 'rsa') return 'RS256';
+  if (key.asymmetricKeyType === 'ed25519') return 'EdDSA';
+  throw new Error(`Unsupported JWT key type: ${key.asymmetricKeyType}`);
+}
+
+class JwtKeyStore {
+  private keys = new Map<string, JwtKey>();
+  private activeKid: string;
+  private issuer: string | undefined;
+
+  constructor() {
+    this.issuer = process.env.JWT_ISSUER || undefined;
+
+    const config = this.readConfig();
+    if (!config) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('JWT signing keys are not configured; set JWT_KEYS or JWT_KEYS_FILE');
+      }
+      console.warn('⚠️  No JWT signing keys configured! Using an ephemeral key; tokens will not survive a restart.');
+      const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+      this.activeKid = `dev-${crypto.randomBytes(4).toString('hex')}`;
+      this.keys.set(this.activeKid, { kid: this.activeKid, alg: 'EdDSA', privateKey, publicKey });
+      return;
+    }
+
+    for (const entry of config.keys) {
+      const privateKey = entry.privateKey ? crypto.createPrivateKey(entry.privateKey) : undefined;
+      const publicKey = entry.publicKey
+        ? crypto.createPublicKey(entry.publicKey)
+        : privateKey ? crypto.createPublicKey(privateKey) : undefined;
+
+      if (!publicKey) {
+        throw new Error(`JWT key "${entry.kid}" has neither a private nor a public key`);
+      }
+
+      const alg = algorithmFor(publicKey);
+      if (entry.alg && entry.alg !== alg) {
+        throw new Error(`JWT key "${entry.kid}" is declared ${entry.alg} but is a ${alg} key`);
+      }
+
+      this.keys.set(entry.kid, { kid: entry.kid, alg, publicKey, ...(privateKey ? { privateKey } : {}) });
+    }
+
+    const active = this.keys.get(config.active);
+    if (!active?.privateKey) {
+      throw new Error(`Active JWT key "${config.active}" is missing or has no private key`);
+    }
+    this.activeKid = config.active;
+  }
+
+  async sign(kind: TokenKind, payload: JWTPayload, expiresIn: string | number): Promise<string> {
+    const key = this.keys.get(this.activeKid)!;
+
+    const jwt = new SignJWT(payload)
+      .setProtectedHeader({ alg: key.alg, kid: key.kid, typ: TOKEN_TYPES[kind] })
+      .setIssuedAt()
+      .setExpirationTime(typeof expiresIn === 'number' ? Math.floor(Date.now() / 1000) + expiresIn : expiresIn);
+
+    if (this.issuer) {
+      jwt.setIssuer(this.issuer);
+    }
+
+    return jwt.sign(key.privateKey!);
+  }
+
+  // Verifies the token kind, signature (by kid), expiry and issuer; claim
+  // checks are up to the caller
+  async verify<T>(kind: TokenKind, token: string): Promise<T> {
+    const { payload, protectedHeader } = await jwtVerify(
+      token,
+      async (header) => {
+        const key = header.kid ? this.keys.get(header.kid) : undefined;
+        if (!key || key.alg !== header.alg) {
+          throw new Error('Unknown signing key');
+        }
+        return key.publicKey;
+      },
+      {
+        algorithms: ['RS256', 'EdDSA'],
+        ...(this.issuer ? { issuer: this.issuer } : {})
+      }
+    );
+
+    if (protectedHeader.typ !== TOKEN_TYPES[kind]) {
+      throw new Error('Unexpected token type');
+    }
+    return payload as T;
+  }
+
+  // Public half of every key, served at /.well-known/jwks.json
+  getJwks(): { keys: JsonWebKey[] } {
+    return {
+      keys: [...this.keys.values()].map(key => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig'
+      }))
+    };
+  }
+
+  private readConfig(): JwtKeysConfig | null {
+    const raw = process.env.JWT_KEYS_FILE
+      ? fs.readFileSync(process.env.JWT_KEYS_FILE, 'utf8')
+      : process.env.JWT_KEYS;
+
+    if (!raw) {
+      return null;
+    }
+
+    const config = JSON.parse(raw) as JwtKeysConfig;
+    if (!config.active || !Array.isArray(config.keys) || config.keys.length === 0) {
+      throw new Error('JWT key configuration must name an active key and list at least one key');
+    }
+    return config;
+  }
+}
+
+export const jwtKeyStore = new JwtKeyStore();
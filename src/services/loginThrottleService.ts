@@ -0,0 +1,133 @@
+import { LoginAttempt, type ILoginAttempt } from '../models/LoginAttempt.js';
+import { Notification } from '../models/Notification.js';
+import { User, type IUserDoc } from '../models/User.js';
+import { mailer } from './mailer.js';
+import { notificationService } from './notificationService.js';
+
+const FREE_ATTEMPTS = 3; // failures allowed before backoff kicks in
+const MAX_BACKOFF_SECONDS = 60;
+const MAX_LOCK_MINUTES = 24 * 60;
+
+class LoginThrottleService {
+  private windowMs: number;
+  private accountLockThreshold: number;
+  private ipLockThreshold: number;
+  private lockMinutes: number;
+
+  constructor() {
+    this.windowMs = Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES || 60) * 60 * 1000;
+    this.accountLockThreshold = Number(process.env.LOGIN_LOCKOUT_THRESHOLD || 10);
+    this.ipLockThreshold = Number(process.env.LOGIN_IP_LOCKOUT_THRESHOLD || 50);
+    this.lockMinutes = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15);
+  }
+
+  normalizeIdentifier(emailOrUsername: string): string {
+    return emailOrUsername.trim().toLowerCase();
+  }
+
+  // Throws before the password is even checked when the account or IP is
+  // locked out or still inside its backoff delay
+  async assertAllowed(emailOrUsername: string, ip?: string): Promise<void> {
+    const { key: accountKey } = await this.resolveAccount(emailOrUsername);
+    const attempts = await LoginAttempt.findByKeys(ip ? [accountKey, this.ipKey(ip)] : [accountKey]);
+    const now = Date.now();
+
+    for (const attempt of attempts) {
+      if (attempt.lockedUntil && attempt.lockedUntil.getTime() > now) {
+        const retryAfter = Math.ceil((attempt.lockedUntil.getTime() - now) / 1000);
+        if (attempt.key === accountKey) {
+          throw Object.assign(new Error('Account locked'), { retryAfter });
+        }
+        throw Object.assign(new Error('Too many login attempts'), { retryAfter });
+      }
+    }
+
+    for (const attempt of attempts) {
+      const retryAt = attempt.lastFailureAt.getTime() + this.backoffSeconds(attempt) * 1000;
+      if (retryAt > now) {
+        throw Object.assign(new Error('Too many login attempts'), {
+          retryAfter: Math.ceil((retryAt - now) / 1000)
+        });
+      }
+    }
+  }
+
+  async recordFailure(emailOrUsername: string, ip?: string): Promise<void> {
+    const { key: accountKey, user } = await this.resolveAccount(emailOrUsername);
+    const account = await LoginAttempt.recordFailure(accountKey, this.windowMs);
+
+    if (account.failures >= this.accountLockThreshold) {
+      const lockedUntil = this.lockExpiry(account.lockCount);
+      await LoginAttempt.lock(accountKey, lockedUntil);
+      if (user) {
+        await this.notifyLocked(user, lockedUntil).catch((error) => {
+          console.error('Failed to send account lockout notification', error);
+        });
+      }
+    }
+
+    if (ip) {
+      const ipKey = this.ipKey(ip);
+      const byIp = await LoginAttempt.recordFailure(ipKey, this.windowMs);
+      if (byIp.failures >= this.ipLockThreshold) {
+        await LoginAttempt.lock(ipKey, this.lockExpiry(byIp.lockCount));
+      }
+    }
+  }
+
+  // Only the account's failures are reset; a successful login on one account
+  // must not clear an IP that is guessing at others. The lockout count stays
+  // until the counter expires, so the next lockout is still longer.
+  async recordSuccess(emailOrUsername: string): Promise<void> {
+    const { key } = await this.resolveAccount(emailOrUsername);
+    await LoginAttempt.resetFailures(key);
+  }
+
+  private backoffSeconds(attempt: ILoginAttempt): number {
+    if (attempt.failures < FREE_ATTEMPTS) {
+      return 0;
+    }
+    return Math.min(2 ** (attempt.failures - FREE_ATTEMPTS), MAX_BACKOFF_SECONDS);
+  }
+
+  private lockExpiry(previousLocks: number): Date {
+    const minutes = Math.min(this.lockMinutes * 2 ** previousLocks, MAX_LOCK_MINUTES);
+    return new Date(Date.now() + minutes * 60 * 1000);
+  }
+
+  private async notifyLocked(user: IUserDoc, lockedUntil: Date): Promise<void> {
+    await notificationService.send(Notification.createSecurityAlert(
+      user._id,
+      'Account temporarily locked',
+      `Sign-in to your account was locked until ${lockedUntil.toISOString()} after repeated failed attempts.`
+    ));
+
+    await mailer.send({
+      to: user.email,
+      subject: 'Your Armada account was temporarily locked',
+      text: [
+        `Hi ${user.username},`,
+        '',
+        `We locked sign-in to your account until ${lockedUntil.toUTCString()} after several failed login attempts.`,
+        "If this wasn't you, consider resetting your password and enabling two-factor authentication."
+      ].join('\n')
+    });
+  }
+
+  // Existing accounts are counted by id, so guesses spread across their email
+  // and username share one counter; unknown identifiers get their own
+  private async resolveAccount(emailOrUsername: string): Promise<{ key: string; user: IUserDoc | null }> {
+    const identifier = this.normalizeIdentifier(emailOrUsername);
+    const user = await User.findOne({
+      $or: [{ email: identifier }, { username: identifier }],
+      deletedAt: null
+    });
+    return { key: user ? `account:${user.id}` : `account:${identifier}`, user };
+  }
+
+  private ipKey(ip: string): string {
+    return `ip:${ip}`;
+  }
+}
+
+export const loginThrottleService = new LoginThrottleService();
@@ -0,0 +1,81 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Delivers mail through an SMTP relay
+export class SmtpMailer implements Mailer {
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string; from: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user ? { auth: { user: options.user, pass: options.pass } } : {})
+    });
+    this.from = options.from;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      ...(message.html ? { html: message.html } : {})
+    });
+  }
+}
+
+// Writes each message as a JSON file instead of sending it; for local
+// development and tests, where the outbox directory can be inspected.
+export class OutboxMailer implements Mailer {
+  constructor(private dir: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const filename = `${Date.now()}-${uuidv4()}.json`;
+    const record = { from: this.from, ...message, createdAt: new Date().toISOString() };
+    await fs.writeFile(path.join(this.dir, filename), JSON.stringify(record, null, 2));
+  }
+}
+
+export function createMailer(): Mailer {
+  const from = process.env.MAIL_FROM || 'Armada <no-reply@armada.app>';
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'outbox');
+
+  if (transport === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+    }
+    return new SmtpMailer({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      ...(process.env.SMTP_USER ? { user: process.env.SMTP_USER } : {}),
+      ...(process.env.SMTP_PASS ? { pass: process.env.SMTP_PASS } : {}),
+      from
+    });
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    console.warn('⚠️  Mail is written to the local outbox! Set SMTP_HOST to deliver email in production.');
+  }
+  return new OutboxMailer(process.env.MAIL_OUTBOX_DIR || '.outbox', from);
+}
+
+export const mailer = createMailer();
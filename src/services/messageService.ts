@@ -0,0 +1,155 @@
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { Thread, type IThreadDoc } from '../models/Thread.js';
+import { Message, type IMessageDoc } from '../models/Message.js';
+import { realtimeService } from './realtimeService.js';
+import { typingService } from './typingService.js';
+
+export const sendMessageSchema = z.object({
+  text: z.string().max(2000, 'Message too long').optional(),
+  media: z.object({
+    url: z.string().url('Invalid media URL'),
+    type: z.enum(['image', 'video', 'audio']),
+    width: z.number().min(0).optional(),
+    height: z.number().min(0).optional(),
+    duration: z.number().min(0).optional(),
+    filename: z.string().optional(),
+    size: z.number().min(0).optional()
+  }).optional()
+}).refine(data => data.text || data.media, {
+  message: 'Message must have either text or media'
+});
+
+export type SendMessageInput = z.infer<typeof sendMessageSchema>;
+
+// Message writes shared by the REST routes and the chat socket. Each one is
+// delivered (replayably) to every participant's chat sockets as
+// message:new, message:edited, message:deleted or message:reacted, and read
+// receipts as thread:read.
+class MessageService {
+  // Throws 'Not a thread participant' for missing threads too, so ids can't be probed
+  async findParticipantThread(userId: string, threadId: string): Promise<IThreadDoc> {
+    const thread = Types.ObjectId.isValid(threadId)
+      ? await Thread.findOne({ _id: threadId, deletedAt: null })
+      : null;
+    if (!thread || !thread.participants.some(id => id.equals(userId))) {
+      throw new Error('Not a thread participant');
+    }
+    return thread;
+  }
+
+  async sendMessage(userId: string, threadId: string, input: SendMessageInput): Promise<IMessageDoc> {
+    const thread = await this.findParticipantThread(userId, threadId);
+    const senderId = new Types.ObjectId(userId);
+
+    const message = await Message.create({
+      threadId: thread._id,
+      senderId,
+      text: input.text,
+      media: input.media
+    });
+
+    // Update thread last message and unread counts
+    await thread.updateLastMessage();
+    for (const participantId of thread.participants.filter(id => !id.equals(senderId))) {
+      await thread.incrementUnread(participantId);
+    }
+
+    await message.populate('senderId', 'username avatarUrl');
+
+    typingService.stop(threadId, userId);
+    this.publish(thread, 'message:new', { threadId, message: message.toJSON() });
+    return message;
+  }
+
+  // Read receipt: clears the user's unread count and tells the other participants
+  async markRead(userId: string, threadId: string, lastReadAt?: Date): Promise<void> {
+    const thread = await this.findParticipantThread(userId, threadId);
+    const now = new Date();
+    const readAt = lastReadAt && lastReadAt < now ? lastReadAt : now;
+
+    await thread.markAsRead(new Types.ObjectId(userId), readAt);
+    this.publish(thread, 'thread:read', { threadId, userId, readAt });
+  }
+
+  // Throws 'Message not found' or 'Not the message sender'
+  async editMessage(userId: string, threadId: string, messageId: string, text: string): Promise<IMessageDoc> {
+    const { thread, message } = await this.findOwnMessage(userId, threadId, messageId);
+
+    await message.edit(text);
+
+    this.publish(thread, 'message:edited', {
+      threadId,
+      messageId,
+      text: message.text,
+      editedAt: message.editedAt
+    });
+    return message;
+  }
+
+  async deleteMessage(userId: string, threadId: string, messageId: string): Promise<void> {
+    const { thread, message } = await this.findOwnMessage(userId, threadId, messageId);
+
+    await message.softDelete();
+    this.publish(thread, 'message:deleted', { threadId, messageId, deletedAt: message.deletedAt });
+  }
+
+  // Sets the user's reaction, replacing any earlier one; null removes it
+  async react(userId: string, threadId: string, messageId: string, emoji: string | null): Promise<IMessageDoc> {
+    const thread = await this.findParticipantThread(userId, threadId);
+    const message = await this.findThreadMessage(thread, messageId);
+    const reactorId = new Types.ObjectId(userId);
+
+    if (emoji) {
+      await message.addReaction(reactorId, emoji);
+    } else {
+      await message.removeReaction(reactorId);
+    }
+
+    this.publish(thread, 'message:reacted', {
+      threadId,
+      messageId,
+      userId,
+      emoji,
+      reactions: message.reactions
+    });
+    return message;
+  }
+
+  // Tells clients about a message removed outside the sender's control (moderation)
+  async announceDeleted(message: IMessageDoc): Promise<void> {
+    const thread = await Thread.findById(message.threadId).select('participants');
+    if (thread) {
+      this.publish(thread, 'message:deleted', {
+        threadId: thread._id.toString(),
+        messageId: message._id.toString(),
+        deletedAt: message.deletedAt
+      });
+    }
+  }
+
+  private async findThreadMessage(thread: IThreadDoc, messageId: string): Promise<IMessageDoc> {
+    const message = Types.ObjectId.isValid(messageId)
+      ? await Message.findOne({ _id: messageId, threadId: thread._id, deletedAt: null })
+      : null;
+    if (!message) {
+      throw new Error('Message not found');
+    }
+    return message;
+  }
+
+  private async findOwnMessage(userId: string, threadId: string, messageId: string) {
+    const thread = await this.findParticipantThread(userId, threadId);
+    const message = await this.findThreadMessage(thread, messageId);
+    if (!message.senderId.equals(userId)) {
+      throw new Error('Not the message sender');
+    }
+    return { thread, message };
+  }
+
+  private publish(thread: IThreadDoc, event: string, payload: unknown) {
+    realtimeService.deliver('/chat', thread.participants.map(id => id.toString()), event, payload);
+  }
+}
+
+export const messageService = new MessageService();
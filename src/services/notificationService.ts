@@ -0,0 +1,14 @@
+import type { INotificationDoc } from '../models/Notification.js';
+import { realtimeService } from './realtimeService.js';
+
+class NotificationService {
+  // Saves a notification built by one of the Notification factories and
+  // delivers it live to the recipient as `notification:new` on /presence
+  async send(notification: INotificationDoc): Promise<INotificationDoc> {
+    await notification.save();
+    realtimeService.deliver('/presence', [notification.userId.toString()], 'notification:new', notification.toJSON());
+    return notification;
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,69 @@
+import fs from 'fs/promises';
+import { createLocalJWKSet, createRemoteJWKSet, jwtVerify, type JWTPayload, type JWTVerifyGetKey } from 'jose';
+import { loadOidcProviders, type OidcProviderConfig } from '../config/oidc.js';
+
+export interface OidcIdentity {
+  provider: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+class OidcService {
+  private providers: Map<string, OidcProviderConfig>;
+  private keySets = new Map<string, Promise<JWTVerifyGetKey>>();
+
+  constructor() {
+    this.providers = loadOidcProviders();
+  }
+
+  // Verifies signature, issuer, audience and expiry of an external ID token
+  async verifyIdToken(provider: string, idToken: string): Promise<OidcIdentity> {
+    const config = this.providers.get(provider);
+    if (!config) {
+      throw new Error('Unknown identity provider');
+    }
+
+    let payload: JWTPayload;
+    try {
+      ({ payload } = await jwtVerify(idToken, await this.getKeySet(config), {
+        algorithms: ['RS256', 'ES256'],
+        issuer: config.issuer,
+        audience: config.audiences
+      }));
+    } catch (error) {
+      throw new Error('Invalid ID token');
+    }
+
+    if (!payload.sub) {
+      throw new Error('Invalid ID token');
+    }
+
+    return {
+      provider,
+      subject: payload.sub,
+      ...(typeof payload.email === 'string' ? { email: payload.email.toLowerCase() } : {}),
+      // Apple sends the flag as a string
+      emailVerified: payload.email_verified === true || payload.email_verified === 'true',
+      ...(typeof payload.name === 'string' ? { name: payload.name } : {})
+    };
+  }
+
+  // Remote sets are cached by jose and refetched when an unknown kid shows up,
+  // which is how providers' key rotations get picked up
+  private getKeySet(config: OidcProviderConfig): Promise<JWTVerifyGetKey> {
+    let keySet = this.keySets.get(config.name);
+    if (!keySet) {
+      keySet = config.jwksFile
+        ? fs.readFile(config.jwksFile, 'utf8').then(raw => createLocalJWKSet(JSON.parse(raw)))
+        : Promise.resolve(createRemoteJWKSet(new URL(config.jwksUri!)));
+      // A failed file read is retried on the next token rather than cached
+      keySet.catch(() => this.keySets.delete(config.name));
+      this.keySets.set(config.name, keySet);
+    }
+    return keySet;
+  }
+}
+
+export const oidcService = new OidcService();
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { COMMON_PASSWORDS } from '../config/commonPasswords.js';
+
+export type PasswordRejectionCode =
+  | 'TOO_SHORT'
+  | 'TOO_LONG'
+  | 'MISSING_LOWERCASE'
+  | 'MISSING_UPPERCASE'
+  | 'MISSING_DIGIT'
+  | 'MISSING_SYMBOL'
+  | 'COMMON_PASSWORD'
+  | 'CONTAINS_PERSONAL_INFO'
+  | 'BREACHED_PASSWORD';
+
+export interface PasswordRejection {
+  code: PasswordRejectionCode;
+  message: string;
+}
+
+// Account details a password must not be built from
+export interface PasswordContext {
+  email?: string | undefined;
+  username?: string | undefined;
+}
+
+type CharacterClass = 'lower' | 'upper' | 'digit' | 'symbol';
+
+const CHARACTER_CLASSES: Record<CharacterClass, { pattern: RegExp; code: PasswordRejectionCode; message: string }> = {
+  lower: { pattern: /[a-z]/, code: 'MISSING_LOWERCASE', message: 'Password must contain a lowercase letter' },
+  upper: { pattern: /[A-Z]/, code: 'MISSING_UPPERCASE', message: 'Password must contain an uppercase letter' },
+  digit: { pattern: /\d/, code: 'MISSING_DIGIT', message: 'Password must contain a number' },
+  symbol: { pattern: /[^A-Za-z0-9]/, code: 'MISSING_SYMBOL', message: 'Password must contain a symbol' }
+};
+
+// Single source of the password rules for registration, change and reset.
+//
+// PASSWORD_MIN_LENGTH / PASSWORD_MAX_LENGTH bound the length and
+// PASSWORD_REQUIRED_CLASSES (comma-separated lower, upper, digit, symbol) the
+// character mix. Candidates are also screened against a common-password
+// dictionary (built in, extended by PASSWORD_COMMON_LIST, one per line) and,
+// when PASSWORD_BREACHED_DIR is set, an offline copy of the Have I Been Pwned
+// SHA-1 range files: one `<first 5 hex chars>.txt` per prefix, each line
+// `<remaining 35 hex chars>:<count>`.
+class PasswordPolicy {
+  readonly minLength: number;
+  readonly maxLength: number;
+  readonly requiredClasses: CharacterClass[];
+  private breachedDir: string | null;
+  private breachedMinCount: number;
+  private commonPasswords: Set<string>;
+
+  constructor() {
+    this.minLength = Number(process.env.PASSWORD_MIN_LENGTH || 8);
+    this.maxLength = Number(process.env.PASSWORD_MAX_LENGTH || 128);
+    this.requiredClasses = (process.env.PASSWORD_REQUIRED_CLASSES ?? 'lower,upper,digit')
+      .split(',')
+      .map(s => s.trim())
+      .filter((s): s is CharacterClass => s in CHARACTER_CLASSES);
+    this.breachedMinCount = Number(process.env.PASSWORD_BREACHED_MIN_COUNT || 1);
+    this.breachedDir = process.env.PASSWORD_BREACHED_DIR ? path.resolve(process.env.PASSWORD_BREACHED_DIR) : null;
+
+    if (this.breachedDir && !fs.existsSync(this.breachedDir)) {
+      console.warn(`⚠️  PASSWORD_BREACHED_DIR ${this.breachedDir} does not exist; breached-password screening is off.`);
+      this.breachedDir = null;
+    }
+
+    this.commonPasswords = new Set(COMMON_PASSWORDS);
+    if (process.env.PASSWORD_COMMON_LIST) {
+      for (const line of fs.readFileSync(process.env.PASSWORD_COMMON_LIST, 'utf8').split(/\r?\n/)) {
+        const entry = line.trim().toLowerCase();
+        if (entry) {
+          this.commonPasswords.add(entry);
+        }
+      }
+    }
+  }
+
+  // Every rule the candidate breaks; an empty list means it is acceptable
+  async check(password: string, context: PasswordContext = {}): Promise<PasswordRejection[]> {
+    const rejections: PasswordRejection[] = [];
+
+    if (password.length < this.minLength) {
+      rejections.push({ code: 'TOO_SHORT', message: `Password must be at least ${this.minLength} characters` });
+    }
+    if (password.length > this.maxLength) {
+      rejections.push({ code: 'TOO_LONG', message: `Password must be at most ${this.maxLength} characters` });
+      // Don't hash or scan arbitrarily long input
+      return rejections;
+    }
+
+    for (const name of this.requiredClasses) {
+      const rule = CHARACTER_CLASSES[name];
+      if (!rule.pattern.test(password)) {
+        rejections.push({ code: rule.code, message: rule.message });
+      }
+    }
+
+    if (this.isCommon(password)) {
+      rejections.push({ code: 'COMMON_PASSWORD', message: 'Password is too common' });
+    }
+
+    if (this.containsPersonalInfo(password, context)) {
+      rejections.push({ code: 'CONTAINS_PERSONAL_INFO', message: 'Password must not contain your username or email' });
+    }
+
+    if (await this.isBreached(password)) {
+      rejections.push({
+        code: 'BREACHED_PASSWORD',
+        message: 'Password has appeared in a data breach; choose a different one'
+      });
+    }
+
+    return rejections;
+  }
+
+  // Throws 'Password does not meet requirements' carrying the rejections
+  async assertAcceptable(password: string, context: PasswordContext = {}): Promise<void> {
+    const rejections = await this.check(password, context);
+    if (rejections.length > 0) {
+      throw Object.assign(new Error('Password does not meet requirements'), { rejections });
+    }
+  }
+
+  // Rules clients can show next to the password field
+  describe() {
+    return {
+      minLength: this.minLength,
+      maxLength: this.maxLength,
+      requiredClasses: this.requiredClasses,
+      rejectsCommonPasswords: true,
+      rejectsBreachedPasswords: this.breachedDir !== null
+    };
+  }
+
+  private isCommon(password: string): boolean {
+    const lowered = password.toLowerCase();
+    // "Summer2024!" is as guessable as "summer"
+    const base = lowered.replace(/[\d\W_]+$/, '');
+    return this.commonPasswords.has(lowered) || (base.length > 0 && this.commonPasswords.has(base));
+  }
+
+  private containsPersonalInfo(password: string, context: PasswordContext): boolean {
+    const lowered = password.toLowerCase();
+    const fragments = [context.username, context.email?.split('@')[0]]
+      .map(value => value?.toLowerCase())
+      .filter((value): value is string => Boolean(value && value.length >= 3));
+    return fragments.some(fragment => lowered.includes(fragment));
+  }
+
+  private async isBreached(password: string): Promise<boolean> {
+    if (!this.breachedDir) {
+      return false;
+    }
+
+    const hash = crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+    const prefix = hash.slice(0, 5);
+    const suffix = hash.slice(5);
+
+    let bucket: string;
+    try {
+      bucket = await fsp.readFile(path.join(this.breachedDir, `${prefix}.txt`), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+
+    for (const line of bucket.split('\n')) {
+      if (line.startsWith(suffix)) {
+        const count = Number(line.slice(suffix.length + 1)) || 0;
+        return count >= this.breachedMinCount;
+      }
+    }
+    return false;
+  }
+}
+
+export const passwordPolicy = new PasswordPolicy();
@@ -0,0 +1,117 @@
+import { Types } from 'mongoose';
+import { PersonalAccessToken, type IPersonalAccessTokenDoc } from '../models/PersonalAccessToken.js';
+import type { TokenScope } from '../types/auth.js';
+
+export interface PersonalAccessTokenSummary {
+  id: string;
+  name: string;
+  scopes: TokenScope[];
+  lastFour: string;
+  createdAt: Date;
+  expiresAt: Date;
+  expired: boolean;
+  lastUsedAt?: Date;
+}
+
+export interface AuthenticatedToken {
+  id: string;
+  userId: string;
+  scopes: TokenScope[];
+}
+
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // lastUsedAt is only rewritten this often
+
+class PersonalAccessTokenService {
+  private maxTokensPerUser: number;
+  private maxLifetimeDays: number;
+
+  constructor() {
+    this.maxTokensPerUser = Number(process.env.PERSONAL_ACCESS_TOKEN_MAX_PER_USER || 20);
+    this.maxLifetimeDays = Number(process.env.PERSONAL_ACCESS_TOKEN_MAX_DAYS || 365);
+  }
+
+  // Returns the raw token alongside its summary; it cannot be retrieved again
+  async createToken(
+    userId: string,
+    name: string,
+    scopes: TokenScope[],
+    expiresInDays: number
+  ): Promise<{ token: string; summary: PersonalAccessTokenSummary }> {
+    if (expiresInDays > this.maxLifetimeDays) {
+      throw new Error('Token lifetime too long');
+    }
+
+    const userObjectId = new Types.ObjectId(userId);
+    const existing = await PersonalAccessToken.countDocuments({ userId: userObjectId, revokedAt: null });
+    if (existing >= this.maxTokensPerUser) {
+      throw new Error('Token limit reached');
+    }
+
+    const token = PersonalAccessToken.generateToken();
+    const doc = await PersonalAccessToken.create({
+      userId: userObjectId,
+      name,
+      tokenHash: PersonalAccessToken.hashToken(token),
+      lastFour: token.slice(-4),
+      scopes: [...new Set(scopes)],
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+    });
+
+    return { token, summary: this.summarize(doc) };
+  }
+
+  async listTokens(userId: string): Promise<PersonalAccessTokenSummary[]> {
+    const tokens = await PersonalAccessToken.findUserTokens(new Types.ObjectId(userId));
+    return tokens.map(token => this.summarize(token));
+  }
+
+  async revokeToken(userId: string, id: string): Promise<void> {
+    const result = Types.ObjectId.isValid(id)
+      ? await PersonalAccessToken.updateOne(
+          { _id: id, userId: new Types.ObjectId(userId), revokedAt: null },
+          { $set: { revokedAt: new Date() } }
+        )
+      : null;
+
+    if (!result || result.matchedCount === 0) {
+      throw new Error('Token not found');
+    }
+  }
+
+  async revokeUserTokens(userId: Types.ObjectId): Promise<void> {
+    await PersonalAccessToken.revokeUserTokens(userId);
+  }
+
+  // Resolves a raw token presented as a bearer credential
+  async authenticate(token: string): Promise<AuthenticatedToken> {
+    const doc = await PersonalAccessToken.findActiveByToken(token);
+    if (!doc) {
+      throw new Error('Invalid access token');
+    }
+
+    if (!doc.lastUsedAt || Date.now() - doc.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await PersonalAccessToken.updateOne({ _id: doc._id }, { $set: { lastUsedAt: new Date() } });
+    }
+
+    return {
+      id: doc._id.toString(),
+      userId: doc.userId.toString(),
+      scopes: doc.scopes
+    };
+  }
+
+  private summarize(token: IPersonalAccessTokenDoc): PersonalAccessTokenSummary {
+    return {
+      id: token._id.toString(),
+      name: token.name,
+      scopes: token.scopes,
+      lastFour: token.lastFour,
+      createdAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      expired: token.expiresAt <= new Date(),
+      ...(token.lastUsedAt ? { lastUsedAt: token.lastUsedAt } : {})
+    };
+  }
+}
+
+export const personalAccessTokenService = new PersonalAccessTokenService();
@@ -0,0 +1,300 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { User } from '../models/User.js';
+import { realtimeService } from './realtimeService.js';
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface FriendPresence {
+  userId: string;
+  status: PresenceStatus;
+  lastSeenAt?: Date;
+}
+
+interface SocketPresence {
+  lastActiveAt: number;
+  away: boolean; // the client reported it is backgrounded or idle
+}
+
+interface UserPresence {
+  sockets: Map<string, SocketPresence>;
+  status: PresenceStatus; // over this instance's sockets only
+}
+
+// What another instance last reported about its users
+interface InstancePresence {
+  statuses: Map<string, PresenceStatus>;
+  seenAt: number;
+}
+
+export interface PresenceCounts {
+  online: number;
+  away: number;
+  instances: number;
+}
+
+const RANK: Record<PresenceStatus, number> = { offline: 0, away: 1, online: 2 };
+const INSTANCE_TIMEOUT_SWEEPS = 3; // silent instances are forgotten after this many sweep intervals
+
+// Tracks which users have sockets open on this instance, across namespaces.
+// A user is online while any socket is active, away while every socket is
+// idle (flagged by the client or silent for PRESENCE_AWAY_AFTER_SECONDS) and
+// offline once the last one disconnects. Changes are pushed to friends as
+// `presence:update`, except to blocked users or when the user has turned on
+// settings.hideOnlineStatus.
+//
+// With several instances, each one shares its users' local status with the
+// others (changes as they happen, plus a full snapshot every sweep) and a
+// user's status is the best across instances. The instance whose change
+// moves that overall status announces it.
+class PresenceService {
+  private users = new Map<string, UserPresence>();
+  private instances = new Map<string, InstancePresence>();
+  private instanceId = crypto.randomBytes(8).toString('hex');
+  private awayAfterMs: number;
+  private sweepIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.awayAfterMs = Number(process.env.PRESENCE_AWAY_AFTER_SECONDS || 120) * 1000;
+    this.sweepIntervalMs = Number(process.env.PRESENCE_SWEEP_INTERVAL_SECONDS || 30) * 1000;
+
+    realtimeService.onServerEvent('presence:status', (instanceId: string, userId: string, status: PresenceStatus) => {
+      const instance = this.instanceFor(instanceId);
+      if (status === 'offline') {
+        instance.statuses.delete(userId);
+      } else {
+        instance.statuses.set(userId, status);
+      }
+    });
+    realtimeService.onServerEvent('presence:snapshot', (instanceId: string, statuses: [string, PresenceStatus][]) => {
+      this.instanceFor(instanceId).statuses = new Map(statuses);
+    });
+    realtimeService.onServerEvent('presence:hello', () => this.shareSnapshot());
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    // Ask the other instances for their users rather than wait for their next sweep
+    realtimeService.emitToServers('presence:hello');
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => {
+        console.error('[presence] sweep failed', error);
+      });
+    }, this.sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async connect(userId: string, socketId: string): Promise<void> {
+    let entry = this.users.get(userId);
+    if (!entry) {
+      entry = { sockets: new Map(), status: 'offline' };
+      this.users.set(userId, entry);
+    }
+    entry.sockets.set(socketId, { lastActiveAt: Date.now(), away: false });
+    await this.update(userId, entry);
+  }
+
+  async heartbeat(userId: string, socketId: string, away = false): Promise<void> {
+    const entry = this.users.get(userId);
+    const socket = entry?.sockets.get(socketId);
+    if (!entry || !socket) {
+      return;
+    }
+    socket.lastActiveAt = Date.now();
+    socket.away = away;
+    await this.update(userId, entry);
+  }
+
+  async disconnect(userId: string, socketId: string): Promise<void> {
+    const entry = this.users.get(userId);
+    if (!entry || !entry.sockets.delete(socketId)) {
+      return;
+    }
+
+    await this.update(userId, entry);
+    // Unless a socket connected while the update was being published
+    if (entry.sockets.size === 0 && this.users.get(userId) === entry) {
+      this.users.delete(userId);
+    }
+  }
+
+  // Across all instances
+  getStatus(userId: string): PresenceStatus {
+    let status = this.users.get(userId)?.status ?? 'offline';
+    for (const instance of this.instances.values()) {
+      const remote = instance.statuses.get(userId) ?? 'offline';
+      if (RANK[remote] > RANK[status]) {
+        status = remote;
+      }
+    }
+    return status;
+  }
+
+  // Connected users across all instances, hidden ones included
+  getCounts(): PresenceCounts {
+    const userIds = new Set(this.users.keys());
+    for (const instance of this.instances.values()) {
+      for (const userId of instance.statuses.keys()) {
+        userIds.add(userId);
+      }
+    }
+
+    const counts: PresenceCounts = { online: 0, away: 0, instances: this.instances.size + 1 };
+    for (const userId of userIds) {
+      const status = this.getStatus(userId);
+      if (status !== 'offline') {
+        counts[status]++;
+      }
+    }
+    return counts;
+  }
+
+  // What the user may see of their friends right now
+  async listFriends(userId: string): Promise<FriendPresence[]> {
+    const viewer = await User.findById(userId).select('friends blocked');
+    if (!viewer) {
+      return [];
+    }
+
+    const friends = await User.find({
+      _id: { $in: viewer.friends, $nin: viewer.blocked },
+      blocked: { $ne: viewer._id },
+      deletedAt: null
+    }).select('lastSeenAt settings.hideOnlineStatus');
+
+    return friends.map((friend) => {
+      if (friend.settings?.hideOnlineStatus) {
+        return { userId: friend._id.toString(), status: 'offline' as const };
+      }
+      return {
+        userId: friend._id.toString(),
+        status: this.getStatus(friend._id.toString()),
+        lastSeenAt: friend.lastSeenAt
+      };
+    });
+  }
+
+  // Re-announces the user after their hideOnlineStatus setting changes
+  async refreshVisibility(userId: string): Promise<void> {
+    await this.publish(userId, this.getStatus(userId), true);
+  }
+
+  private async update(userId: string, entry: UserPresence): Promise<void> {
+    const status = this.computeStatus(entry);
+    if (status === entry.status) {
+      return;
+    }
+
+    const before = this.getStatus(userId);
+    entry.status = status;
+    realtimeService.emitToServers('presence:status', this.instanceId, userId, status);
+    await this.announce(userId, before);
+  }
+
+  // Publishes the user's overall status if it differs from `before`
+  private async announce(userId: string, before: PresenceStatus): Promise<void> {
+    const after = this.getStatus(userId);
+    if (after === before) {
+      return;
+    }
+    if (after === 'offline') {
+      await User.updateOne({ _id: userId }, { $set: { lastSeenAt: new Date() } });
+    }
+    await this.publish(userId, after);
+  }
+
+  private computeStatus(entry: UserPresence): PresenceStatus {
+    if (entry.sockets.size === 0) {
+      return 'offline';
+    }
+    const activeSince = Date.now() - this.awayAfterMs;
+    for (const socket of entry.sockets.values()) {
+      if (!socket.away && socket.lastActiveAt > activeSince) {
+        return 'online';
+      }
+    }
+    return 'away';
+  }
+
+  // Idle sockets stop sending heartbeats rather than announcing it
+  private async sweep(): Promise<void> {
+    for (const [userId, entry] of this.users) {
+      await this.update(userId, entry);
+    }
+    this.shareSnapshot();
+    await this.forgetSilentInstances();
+  }
+
+  private instanceFor(instanceId: string): InstancePresence {
+    let instance = this.instances.get(instanceId);
+    if (!instance) {
+      instance = { statuses: new Map(), seenAt: Date.now() };
+      this.instances.set(instanceId, instance);
+    }
+    instance.seenAt = Date.now();
+    return instance;
+  }
+
+  private shareSnapshot() {
+    const statuses = [...this.users].map(([userId, entry]) => [userId, entry.status]);
+    realtimeService.emitToServers('presence:snapshot', this.instanceId, statuses);
+  }
+
+  // An instance that stopped sharing snapshots has gone away with its sockets.
+  // Every survivor notices; the one with the lowest id announces the fallout.
+  private async forgetSilentInstances(): Promise<void> {
+    const cutoff = Date.now() - this.sweepIntervalMs * INSTANCE_TIMEOUT_SWEEPS;
+    for (const [instanceId, instance] of this.instances) {
+      if (instance.seenAt >= cutoff) {
+        continue;
+      }
+
+      const before = new Map([...instance.statuses.keys()].map(userId => [userId, this.getStatus(userId)]));
+      this.instances.delete(instanceId);
+
+      const announcer = [this.instanceId, ...this.instances.keys()].sort()[0];
+      if (announcer !== this.instanceId) {
+        continue;
+      }
+      for (const [userId, status] of before) {
+        await this.announce(userId, status);
+      }
+    }
+  }
+
+  // Hidden users are announced (as offline) only when visibility itself changes
+  private async publish(userId: string, status: PresenceStatus, visibilityChanged = false): Promise<void> {
+    const user = await User.findById(userId).select('friends blocked lastSeenAt settings.hideOnlineStatus');
+    if (!user) {
+      return;
+    }
+
+    const hidden = Boolean(user.settings?.hideOnlineStatus);
+    if (hidden && !visibilityChanged) {
+      return;
+    }
+
+    const recipients = await User.find({
+      _id: { $in: user.friends, $nin: user.blocked },
+      blocked: { $ne: new Types.ObjectId(userId) }
+    }).distinct('_id');
+
+    realtimeService.emitToUsers(recipients.map(id => id.toString()), 'presence:update', {
+      userId,
+      status: hidden ? 'offline' : status,
+      ...(hidden ? {} : { lastSeenAt: user.lastSeenAt })
+    });
+  }
+}
+
+export const presenceService = new PresenceService();
@@ -0,0 +1,147 @@
+import { User, type IUserDoc, type UserRole } from '../models/User.js';
+import { RefreshSession } from '../models/RefreshSession.js';
+
+// The slice of a user that authentication needs. Kept JSON-serializable
+// (timestamps as epoch ms) so it can live in a shared cache.
+export interface CachedPrincipal {
+  id: string;
+  email: string;
+  username: string;
+  emailVerified: boolean;
+  role: UserRole;
+  suspendedAt: number | null;
+  suspendedUntil: number | null;
+  sessionIds: string[]; // refresh session families still active
+}
+
+// Backing store for principal snapshots. The in-process LRU is the default;
+// a shared implementation (Redis, memcached, ...) can be installed with
+// principalCache.useStore() so invalidations reach every instance.
+export interface PrincipalCacheStore {
+  get(userId: string): Promise<CachedPrincipal | undefined>;
+  set(userId: string, principal: CachedPrincipal, ttlMs: number): Promise<void>;
+  delete(userId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const PRINCIPAL_FIELDS = 'email username emailVerifiedAt role suspendedAt suspendedUntil';
+
+// Map iteration order is insertion order, so re-inserting on read keeps the
+// least recently used entry first
+export class MemoryPrincipalCacheStore implements PrincipalCacheStore {
+  private entries = new Map<string, { principal: CachedPrincipal; expiresAt: number }>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(userId: string): Promise<CachedPrincipal | undefined> {
+    const entry = this.entries.get(userId);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(userId);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(userId, entry);
+    return entry.principal;
+  }
+
+  async set(userId: string, principal: CachedPrincipal, ttlMs: number): Promise<void> {
+    this.entries.delete(userId);
+    this.entries.set(userId, { principal, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.entries.delete(userId);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export function isPrincipalSuspended(principal: CachedPrincipal): boolean {
+  return principal.suspendedAt !== null && (principal.suspendedUntil === null || principal.suspendedUntil > Date.now());
+}
+
+// Resolves user ids to principals for requireAuth and socket auth without a
+// Mongo read per request. Entries live for PRINCIPAL_CACHE_TTL_SECONDS (0
+// disables caching); anything that changes a cached field, suspends or deletes
+// a user, or creates or revokes one of their sessions, must call invalidate().
+// The TTL bounds staleness for writes made by other instances while the
+// default per-process store is in use.
+class PrincipalCache {
+  private ttlMs: number;
+  private store: PrincipalCacheStore;
+
+  constructor() {
+    this.ttlMs = Number(process.env.PRINCIPAL_CACHE_TTL_SECONDS ?? 30) * 1000;
+    this.store = new MemoryPrincipalCacheStore(Number(process.env.PRINCIPAL_CACHE_MAX_ENTRIES || 10000));
+  }
+
+  useStore(store: PrincipalCacheStore) {
+    this.store = store;
+  }
+
+  // Null when the user does not exist or has been deleted
+  async get(userId: string): Promise<CachedPrincipal | null> {
+    if (this.ttlMs > 0) {
+      const cached = await this.store.get(userId);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const user = await User.findOne({ _id: userId, deletedAt: null }).select(PRINCIPAL_FIELDS);
+    if (!user) {
+      return null;
+    }
+
+    const sessions = await RefreshSession.find({ userId: user._id, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .select('familyId')
+      .lean();
+    const principal = this.snapshot(user, sessions.map(session => session.familyId));
+    if (this.ttlMs > 0) {
+      await this.store.set(userId, principal, this.ttlMs);
+    }
+    return principal;
+  }
+
+  // Whether an access token's session is still signed in
+  async hasSession(userId: string, sessionId: string): Promise<boolean> {
+    const principal = await this.get(userId);
+    return Boolean(principal?.sessionIds.includes(sessionId));
+  }
+
+  async invalidate(userId: { toString(): string }): Promise<void> {
+    await this.store.delete(userId.toString());
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  private snapshot(user: IUserDoc, sessionIds: string[]): CachedPrincipal {
+    return {
+      id: user._id.toString(),
+      email: user.email,
+      username: user.username,
+      emailVerified: Boolean(user.emailVerifiedAt),
+      role: user.role,
+      suspendedAt: user.suspendedAt ? user.suspendedAt.getTime() : null,
+      suspendedUntil: user.suspendedUntil ? user.suspendedUntil.getTime() : null,
+      sessionIds
+    };
+  }
+}
+
+export const principalCache = new PrincipalCache();
@@ -0,0 +1,145 @@
+import { convoyRoom, sessionRoom, threadRoom, userRoom, type AppServer } from '../types/socket.js';
+import { eventLogService } from './eventLogService.js';
+
+export type SocketNamespace = '/presence' | '/chat';
+
+// Sent with `auth:revoked` before the server drops a socket
+export interface RevokeReason {
+  code: string;
+  message: string;
+}
+
+export const SESSION_REVOKED: RevokeReason = { code: 'SESSION_REVOKED', message: 'This session has been signed out' };
+
+const NAMESPACES: SocketNamespace[] = ['/presence', '/chat'];
+
+type ServerEventHandler = (...args: any[]) => void;
+
+// Lets routes and services emit to socket rooms without holding the Socket.IO
+// server. Emits before attach() (scripts, tests) are dropped.
+//
+// Room broadcasts reach every instance through the Socket.IO adapter.
+// Replayable events are instead relayed as server-side events and delivered
+// by each instance to its own sockets, so the `{ stream, seq }` they carry
+// comes from the event log of the instance the client is connected to.
+class RealtimeService {
+  private io: AppServer | null = null;
+  private clustered = false;
+  private serverHandlers = new Map<string, ServerEventHandler>();
+
+  constructor() {
+    this.onServerEvent('realtime:deliver', (namespace, userIds, event, payload) => {
+      this.deliverLocally(namespace, userIds, event, payload);
+    });
+    this.onServerEvent('realtime:convoy', (convoyId, memberIds, event, payload, coalesceKey) => {
+      this.emitToConvoyLocally(convoyId, memberIds, event, payload, coalesceKey);
+    });
+  }
+
+  attach(io: AppServer) {
+    this.io = io;
+    for (const [event, handler] of this.serverHandlers) {
+      io.sockets.on(event, handler);
+    }
+  }
+
+  // Called once a cluster adapter is installed; until then server events stay local
+  enableCluster() {
+    this.clustered = true;
+  }
+
+  // Messages between instances; see emitToServers
+  onServerEvent(event: string, handler: ServerEventHandler) {
+    this.serverHandlers.set(event, handler);
+    this.io?.sockets.on(event, handler);
+  }
+
+  // To every other instance, never this one
+  emitToServers(event: string, ...args: unknown[]) {
+    if (this.clustered) {
+      this.io?.serverSideEmit(event, ...args);
+    }
+  }
+
+  // Replayable delivery: each user's copy is numbered in their event log and
+  // sent with `{ stream, seq }` as a second argument
+  deliver(namespace: SocketNamespace, userIds: string[], event: string, payload: unknown) {
+    const recipients = [...new Set(userIds)];
+    this.deliverLocally(namespace, recipients, event, payload);
+    this.emitToServers('realtime:deliver', namespace, recipients, event, payload);
+  }
+
+  // Live to the convoy room. Members' logs keep only the latest copy per
+  // `coalesceKey`, so a resuming socket catches up on current positions.
+  emitToConvoy(convoyId: string, memberIds: string[], event: string, payload: unknown, coalesceKey: string) {
+    this.emitToConvoyLocally(convoyId, memberIds, event, payload, coalesceKey);
+    this.emitToServers('realtime:convoy', convoyId, memberIds, event, payload, coalesceKey);
+  }
+
+  // Transient, not replayed: to every presence socket of the given users
+  emitToUsers(userIds: string[], event: string, payload: unknown) {
+    if (userIds.length > 0) {
+      this.io?.of('/presence').to(userIds.map(userRoom)).emit(event, payload);
+    }
+  }
+
+  // Removes the user's presence sockets from a convoy room, e.g. after leaving it
+  removeFromConvoy(userId: string, convoyId: string) {
+    this.io?.of('/presence').in(userRoom(userId)).socketsLeave(convoyRoom(convoyId));
+  }
+
+  // Only to sockets viewing the thread, for transient state such as typing;
+  // `exceptUserId` leaves out that user's own sockets
+  emitToThreadRoom(threadId: string, event: string, payload: unknown, exceptUserId?: string) {
+    this.io?.of('/chat').to(threadRoom(threadId)).except(exceptUserId ? userRoom(exceptUserId) : []).emit(event, payload);
+  }
+
+  closeConvoy(convoyId: string) {
+    this.io?.of('/presence').in(convoyRoom(convoyId)).socketsLeave(convoyRoom(convoyId));
+  }
+
+  // Sends `auth:revoked` with the reason to every socket of the user, on any
+  // instance, then drops them. Sockets of `exceptSessionId` stay connected.
+  disconnectUser(userId: string, reason: RevokeReason, exceptSessionId?: string) {
+    for (const namespace of NAMESPACES) {
+      const sockets = this.io?.of(namespace).in(userRoom(userId)).except(exceptSessionId ? sessionRoom(exceptSessionId) : []);
+      sockets?.emit('auth:revoked', reason);
+      sockets?.disconnectSockets(true);
+    }
+  }
+
+  // Same as disconnectUser, for the sockets of one refresh session
+  disconnectSession(sessionId: string, reason: RevokeReason) {
+    for (const namespace of NAMESPACES) {
+      const sockets = this.io?.of(namespace).in(sessionRoom(sessionId));
+      sockets?.emit('auth:revoked', reason);
+      sockets?.disconnectSockets(true);
+    }
+  }
+
+  private deliverLocally(namespace: SocketNamespace, userIds: string[], event: string, payload: unknown) {
+    for (const userId of userIds) {
+      if (this.shouldRecord(namespace, userId)) {
+        const meta = eventLogService.record(userId, namespace, event, payload);
+        this.io?.of(namespace).local.to(userRoom(userId)).emit(event, payload, meta);
+      }
+    }
+  }
+
+  private emitToConvoyLocally(convoyId: string, memberIds: string[], event: string, payload: unknown, coalesceKey: string) {
+    for (const userId of memberIds) {
+      if (this.shouldRecord('/presence', userId)) {
+        eventLogService.record(userId, '/presence', event, payload, coalesceKey);
+      }
+    }
+    this.io?.of('/presence').local.to(convoyRoom(convoyId)).emit(event, payload);
+  }
+
+  // Users connected here, or recently enough to still have a log here. Any
+  // other user resuming on this instance is told to resync anyway.
+  private shouldRecord(namespace: SocketNamespace, userId: string): boolean {
+    return Boolean(this.io?.of(namespace).adapter.rooms.get(userRoom(userId))?.size) || eventLogService.has(userId);
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,87 @@
+import { Types } from 'mongoose';
+import { RefreshSession } from '../models/RefreshSession.js';
+import { DeviceToken } from '../models/DeviceToken.js';
+import { principalCache } from './principalCache.js';
+import { realtimeService, SESSION_REVOKED } from './realtimeService.js';
+
+export interface SessionSummary {
+  id: string;
+  current: boolean;
+  deviceId?: string;
+  platform?: string;
+  appVersion?: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  lastActiveAt: Date;
+}
+
+class SessionService {
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await RefreshSession.findActiveUserSessions(new Types.ObjectId(userId));
+
+    return sessions.map(session => ({
+      id: session._id.toString(),
+      current: session.familyId === currentSessionId,
+      ...(session.deviceId ? { deviceId: session.deviceId } : {}),
+      ...(session.platform ? { platform: session.platform } : {}),
+      ...(session.appVersion ? { appVersion: session.appVersion } : {}),
+      ...(session.userAgent ? { userAgent: session.userAgent } : {}),
+      ...(session.ip ? { ip: session.ip } : {}),
+      createdAt: session.createdAt,
+      lastActiveAt: session.lastUsedAt
+    }));
+  }
+
+  // Revokes one of the user's sessions and stops push notifications to its device
+  async revokeSession(userId: string, id: string): Promise<void> {
+    const userObjectId = new Types.ObjectId(userId);
+    const session = Types.ObjectId.isValid(id)
+      ? await RefreshSession.findOne({ _id: id, userId: userObjectId })
+      : null;
+
+    if (!session || !session.isActive()) {
+      throw new Error('Session not found');
+    }
+
+    await session.revoke('revoked_by_user');
+    await principalCache.invalidate(userObjectId);
+    realtimeService.disconnectSession(session.familyId, SESSION_REVOKED);
+
+    if (session.deviceId) {
+      await DeviceToken.deactivateUserTokens(userObjectId, { deviceIds: [session.deviceId] });
+    }
+  }
+
+  // "Log out everywhere else": keeps only the session making the request
+  async revokeOtherSessions(userId: string, currentSessionId: string): Promise<number> {
+    const userObjectId = new Types.ObjectId(userId);
+    const current = await RefreshSession.findByFamily(currentSessionId);
+
+    const others = (await RefreshSession.findActiveUserSessions(userObjectId))
+      .filter(session => session.familyId !== currentSessionId);
+
+    await RefreshSession.revokeUserSessions(userObjectId, 'revoked_by_user', currentSessionId);
+    await principalCache.invalidate(userObjectId);
+    realtimeService.disconnectUser(userId, SESSION_REVOKED, currentSessionId);
+
+    // Push tokens belong to devices rather than sessions, so when we know the
+    // current device we keep exactly its tokens; otherwise only the devices of
+    // the revoked sessions are signed out
+    if (current?.deviceId) {
+      await DeviceToken.deactivateUserTokens(userObjectId, { exceptDeviceId: current.deviceId });
+    } else {
+      const deviceIds = others
+        .map(session => session.deviceId)
+        .filter((deviceId): deviceId is string => Boolean(deviceId));
+
+      if (deviceIds.length > 0) {
+        await DeviceToken.deactivateUserTokens(userObjectId, { deviceIds });
+      }
+    }
+
+    return others.length;
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import { User, type IUserDoc } from '../models/User.js';
+import { generateSecret, verifyCode, buildOtpauthUri } from './totp.js';
+
+const SECRET_FIELDS = '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodeHashes';
+const RECOVERY_CODE_COUNT = 10;
+
+class TwoFactorService {
+  private issuer: string;
+
+  constructor() {
+    this.issuer = process.env.TOTP_ISSUER || 'Armada';
+  }
+
+  // Starts (or restarts) enrolment; 2FA stays off until confirmEnrolment succeeds
+  async beginEnrolment(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await this.loadUser(userId);
+    if (user.twoFactor?.enabled) {
+      throw new Error('Two-factor already enabled');
+    }
+
+    const secret = generateSecret();
+    user.set('twoFactor.pendingSecret', secret);
+    await user.save();
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, this.issuer)
+    };
+  }
+
+  // Returns the plaintext recovery codes; they are only ever shown this once
+  async confirmEnrolment(userId: string, code: string): Promise<string[]> {
+    const user = await this.loadUser(userId);
+    if (user.twoFactor?.enabled) {
+      throw new Error('Two-factor already enabled');
+    }
+
+    const pendingSecret = user.twoFactor?.pendingSecret;
+    if (!pendingSecret) {
+      throw new Error('No pending two-factor enrolment');
+    }
+
+    const step = verifyCode(pendingSecret, code);
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    user.set('twoFactor', {
+      enabled: true,
+      secret: pendingSecret,
+      pendingSecret: null,
+      recoveryCodeHashes: recoveryCodes.map(c => this.hashRecoveryCode(c)),
+      lastUsedStep: step,
+      enabledAt: new Date()
+    });
+    await user.save();
+
+    return recoveryCodes;
+  }
+
+  async disable(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.loadUser(userId);
+    if (!user.twoFactor?.enabled) {
+      throw new Error('Two-factor not enabled');
+    }
+
+    if (!(await user.comparePassword(password))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    if (!(await this.verify(user, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    user.set('twoFactor', {
+      enabled: false,
+      secret: null,
+      pendingSecret: null,
+      recoveryCodeHashes: [],
+      lastUsedStep: null,
+      enabledAt: null
+    });
+    await user.save();
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.loadUser(userId);
+    if (!user.twoFactor?.enabled) {
+      throw new Error('Two-factor not enabled');
+    }
+
+    if (!(await this.verify(user, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { 'twoFactor.recoveryCodeHashes': recoveryCodes.map(c => this.hashRecoveryCode(c)) } }
+    );
+
+    return recoveryCodes;
+  }
+
+  // Accepts a TOTP code not used before or an unused recovery code, consuming it
+  // either way. Returns false for users without 2FA.
+  async verifyForUser(userId: string, code: string): Promise<boolean> {
+    const user = await User.findById(userId).select(SECRET_FIELDS);
+    if (!user || !user.twoFactor?.enabled) {
+      return false;
+    }
+    return this.verify(user, code);
+  }
+
+  private async verify(user: IUserDoc, code: string): Promise<boolean> {
+    const normalized = code.trim();
+    const secret = user.twoFactor.secret;
+
+    if (secret) {
+      const step = verifyCode(secret, normalized);
+      if (step !== null) {
+        // Only accept a step newer than the last one used; the conditional update
+        // makes concurrent submissions of the same code fail as well
+        const result = await User.updateOne(
+          {
+            _id: user._id,
+            $or: [
+              { 'twoFactor.lastUsedStep': null },
+              { 'twoFactor.lastUsedStep': { $lt: step } }
+            ]
+          },
+          { $set: { 'twoFactor.lastUsedStep': step } }
+        );
+        return result.modifiedCount === 1;
+      }
+    }
+
+    const hash = this.hashRecoveryCode(normalized);
+    const result = await User.updateOne(
+      { _id: user._id, 'twoFactor.recoveryCodeHashes': hash },
+      { $pull: { 'twoFactor.recoveryCodeHashes': hash } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  private async loadUser(userId: string): Promise<IUserDoc> {
+    const user = await User.findOne({ _id: userId, deletedAt: null }).select(SECRET_FIELDS);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.toLowerCase()).digest('hex');
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,63 @@
+import { realtimeService } from './realtimeService.js';
+
+interface TypingEntry {
+  socketId: string;
+  timer: NodeJS.Timeout;
+}
+
+// Who is typing in which thread. A `typing:start` is broadcast to the rest of
+// the thread once per burst; repeats while typing only push the expiry back,
+// and the server sends `typing:stop` itself when TYPING_EXPIRY_SECONDS pass
+// without one, the user sends a message or their socket goes away.
+class TypingService {
+  private entries = new Map<string, TypingEntry>();
+  private expiryMs: number;
+
+  constructor() {
+    this.expiryMs = Number(process.env.TYPING_EXPIRY_SECONDS || 6) * 1000;
+  }
+
+  start(threadId: string, userId: string, socketId: string) {
+    const key = this.key(threadId, userId);
+    const existing = this.entries.get(key);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const timer = setTimeout(() => this.stop(threadId, userId), this.expiryMs);
+    timer.unref();
+    this.entries.set(key, { socketId, timer });
+
+    if (!existing) {
+      realtimeService.emitToThreadRoom(threadId, 'typing:start', { threadId, userId, expiresIn: this.expiryMs }, userId);
+    }
+  }
+
+  stop(threadId: string, userId: string) {
+    const key = this.key(threadId, userId);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+
+    clearTimeout(entry.timer);
+    this.entries.delete(key);
+    realtimeService.emitToThreadRoom(threadId, 'typing:stop', { threadId, userId }, userId);
+  }
+
+  // Ends whatever the socket was typing in
+  stopSocket(socketId: string) {
+    for (const [key, entry] of this.entries) {
+      if (entry.socketId === socketId) {
+        const [threadId, userId] = key.split(':') as [string, string];
+        this.stop(threadId, userId);
+      }
+    }
+  }
+
+  private key(threadId: string, userId: string): string {
+    return `${threadId}:${userId}`;
+  }
+}
+
+export const typingService = new TypingService();
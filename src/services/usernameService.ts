@@ -0,0 +1,171 @@
+import type { Response } from 'express';
+import { Types } from 'mongoose';
+import { User, type IUserDoc } from '../models/User.js';
+import { UsernameHistory } from '../models/UsernameHistory.js';
+import { principalCache } from './principalCache.js';
+
+export interface ResolvedUsername {
+  user: IUserDoc;
+  // Set when `username` is a name the account has since given up
+  previousUsername?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Responds to the errors changeUsername throws; false for anything else
+export function sendUsernameChangeError(res: Response, error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.message === 'Username already taken') {
+    res.status(409).json({
+      error: {
+        code: 'USERNAME_TAKEN',
+        message: 'Username is already taken'
+      }
+    });
+    return true;
+  }
+  if (error.message === 'Username change cooldown') {
+    res.status(429).json({
+      error: {
+        code: 'USERNAME_CHANGE_COOLDOWN',
+        message: 'Username was changed too recently',
+        retryAt: 'retryAt' in error ? error.retryAt : undefined
+      }
+    });
+    return true;
+  }
+  return false;
+}
+
+class UsernameService {
+  private cooldownDays: number;
+  private reservationDays: number;
+
+  constructor() {
+    this.cooldownDays = Number(process.env.USERNAME_CHANGE_COOLDOWN_DAYS ?? 30);
+    this.reservationDays = Number(process.env.USERNAME_RESERVATION_DAYS ?? 90);
+  }
+
+  // Free to claim: unused, and not held for whoever gave it up recently.
+  // Users may always take back their own old names.
+  async isAvailable(username: string, userId?: Types.ObjectId): Promise<boolean> {
+    const name = username.toLowerCase();
+    const [owner, reservation] = await Promise.all([
+      User.findOne({ username: name }).select('_id'),
+      UsernameHistory.findReservation(name, userId)
+    ]);
+    return (!owner || (userId !== undefined && owner._id.equals(userId))) && !reservation;
+  }
+
+  // Throws the cooldown or taken error changeUsername would, without changing
+  // anything, so a request that also updates other fields can be rejected
+  // before it writes them. A missing user is left for the caller to report.
+  async assertCanChange(userId: string, username: string): Promise<void> {
+    const user = await User.findOne({ _id: userId, deletedAt: null }).select('username usernameChangedAt');
+    if (user && user.username !== username.toLowerCase()) {
+      await this.assertChangeAllowed(user, username.toLowerCase());
+    }
+  }
+
+  // Throws 'Username already taken' or 'Username change cooldown' (with `retryAt`)
+  async changeUsername(userId: string, username: string): Promise<IUserDoc> {
+    const id = new Types.ObjectId(userId);
+    const name = username.toLowerCase();
+
+    const user = await User.findOne({ _id: id, deletedAt: null });
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.username === name) {
+      return user;
+    }
+
+    await this.assertChangeAllowed(user, name);
+
+    const now = new Date();
+    const previous = user.username;
+    try {
+      // Conditional on the old name and change time so concurrent renames can't both land
+      const result = await User.updateOne(
+        { _id: id, username: previous, usernameChangedAt: user.usernameChangedAt ?? null },
+        { $set: { username: name, usernameChangedAt: now } },
+        { runValidators: true }
+      );
+      if (result.matchedCount === 0) {
+        throw Object.assign(new Error('Username change cooldown'), {
+          retryAt: new Date(now.getTime() + this.cooldownDays * DAY_MS)
+        });
+      }
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error('Username already taken');
+      }
+      throw error;
+    }
+
+    await UsernameHistory.create({
+      userId: id,
+      username: previous,
+      changedAt: now,
+      reservedUntil: new Date(now.getTime() + this.reservationDays * DAY_MS)
+    });
+    await principalCache.invalidate(id);
+
+    user.username = name;
+    user.usernameChangedAt = now;
+    return user;
+  }
+
+  private async assertChangeAllowed(user: IUserDoc, name: string): Promise<void> {
+    if (user.usernameChangedAt) {
+      const retryAt = new Date(user.usernameChangedAt.getTime() + this.cooldownDays * DAY_MS);
+      if (retryAt > new Date()) {
+        throw Object.assign(new Error('Username change cooldown'), { retryAt });
+      }
+    }
+
+    if (!(await this.isAvailable(name, user._id))) {
+      throw new Error('Username already taken');
+    }
+  }
+
+  // Current owner first; otherwise the account that most recently gave the name up
+  async resolve(username: string, fields?: string): Promise<ResolvedUsername | null> {
+    const name = username.toLowerCase();
+
+    const current = await this.findActive({ username: name }, fields);
+    if (current) {
+      return { user: current };
+    }
+
+    const history = await UsernameHistory.findLatestByUsername(name);
+    if (!history) {
+      return null;
+    }
+
+    const renamed = await this.findActive({ _id: history.userId }, fields);
+    return renamed ? { user: renamed, previousUsername: name } : null;
+  }
+
+  async getHistory(userId: string) {
+    const entries = await UsernameHistory.findUserHistory(new Types.ObjectId(userId));
+    return entries.map(entry => ({
+      username: entry.username,
+      changedAt: entry.changedAt,
+      reservedUntil: entry.reservedUntil
+    }));
+  }
+
+  async deleteUserHistory(userId: Types.ObjectId): Promise<void> {
+    await UsernameHistory.deleteMany({ userId });
+  }
+
+  private async findActive(filter: Record<string, unknown>, fields?: string): Promise<IUserDoc | null> {
+    const query = User.findOne({ ...filter, deletedAt: null });
+    return fields ? query.select(fields) : query;
+  }
+}
+
+export const usernameService = new UsernameService();
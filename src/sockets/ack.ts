@@ -0,0 +1,10 @@
+export type Ack = (response: unknown) => void;
+
+// Clients may emit without an acknowledgement callback
+export function replyFor(ack: unknown): Ack {
+  return typeof ack === 'function' ? ack as Ack : () => {};
+}
+
+export function replyError(reply: Ack, code: string, message: string, details?: unknown) {
+  reply({ ok: false, error: { code, message, ...(details !== undefined ? { details } : {}) } });
+}
@@ -0,0 +1,119 @@
+import type { ExtendedError } from 'socket.io';
+import { z } from 'zod';
+import { authService } from '../services/authService.js';
+import { principalCache, isPrincipalSuspended } from '../services/principalCache.js';
+import { sessionRoom, userRoom, type AppSocket, type SocketData } from '../types/socket.js';
+import { socketEvents } from './events.js';
+
+const EXPIRY_WARNING_MS = 60 * 1000; // `auth:expiring` is sent this long before the token lapses
+const MAX_TIMER_MS = 2 ** 31 - 1; // setTimeout fires immediately beyond this
+
+const refreshSchema = z.object({
+  token: z.string().min(1)
+});
+
+// Same checks as requireAuth: a valid access JWT for an existing, unsuspended user
+async function authenticate(token: unknown): Promise<SocketData> {
+  if (typeof token !== 'string' || !token) {
+    throw new Error('Authentication error');
+  }
+
+  const payload = await authService.verifyAccessToken(token).catch(() => {
+    throw new Error('Authentication error');
+  });
+  if (!payload.exp) {
+    throw new Error('Authentication error');
+  }
+
+  const user = await principalCache.get(payload.userId);
+  if (!user) {
+    throw new Error('Authentication error');
+  }
+  if (isPrincipalSuspended(user)) {
+    throw new Error('Account suspended');
+  }
+
+  return {
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    sessionId: payload.sessionId,
+    tokenExpiresAt: payload.exp * 1000
+  };
+}
+
+// Handshake middleware; clients pass the access token as `auth: { token }`
+export async function socketAuthMiddleware(socket: AppSocket, next: (err?: ExtendedError) => void) {
+  try {
+    Object.assign(socket.data, await authenticate(socket.handshake.auth.token));
+    next();
+  } catch (error: any) {
+    next(new Error(error.message === 'Account suspended' ? error.message : 'Authentication error'));
+  }
+}
+
+// Joins the user's room and ties the connection to the lifetime of its access
+// token. Before it lapses the client gets `auth:expiring` and should emit
+// `auth:refresh` with `{ token }` from POST /auth/refresh; otherwise it gets
+// `auth:expired` and is disconnected.
+export function bindSocketSession(socket: AppSocket) {
+  socket.join(userRoom(socket.data.userId));
+  if (socket.data.sessionId) {
+    socket.join(sessionRoom(socket.data.sessionId));
+  }
+
+  let warningTimer: NodeJS.Timeout | undefined;
+  let expiryTimer: NodeJS.Timeout | undefined;
+
+  const schedule = () => {
+    clearTimeout(warningTimer);
+    clearTimeout(expiryTimer);
+
+    const remaining = socket.data.tokenExpiresAt - Date.now();
+    if (remaining - EXPIRY_WARNING_MS <= MAX_TIMER_MS) {
+      warningTimer = setTimeout(() => {
+        socket.emit('auth:expiring', { expiresAt: new Date(socket.data.tokenExpiresAt) });
+      }, Math.max(0, remaining - EXPIRY_WARNING_MS));
+    }
+    expiryTimer = remaining > MAX_TIMER_MS
+      ? setTimeout(schedule, MAX_TIMER_MS)
+      : setTimeout(() => {
+          socket.emit('auth:expired');
+          socket.disconnect(true);
+        }, Math.max(0, remaining));
+  };
+
+  schedule();
+
+  const events = socketEvents(socket, {
+    'Authentication error': { code: 'INVALID_TOKEN', message: 'Invalid or expired token' },
+    'Account suspended': { code: 'ACCOUNT_SUSPENDED', message: 'This account has been suspended', disconnect: true },
+    'Token user mismatch': { code: 'USER_MISMATCH', message: 'Token belongs to a different user' }
+  });
+
+  events.on('auth:refresh', { schema: refreshSchema, perSocket: { burst: 3, perSecond: 0.05 } }, async ({ token }) => {
+    const refreshed = await authenticate(token);
+    if (refreshed.userId !== socket.data.userId) {
+      throw new Error('Token user mismatch');
+    }
+
+    // A token from another session moves the socket to that session's room
+    if (refreshed.sessionId !== socket.data.sessionId) {
+      if (socket.data.sessionId) {
+        socket.leave(sessionRoom(socket.data.sessionId));
+      }
+      if (refreshed.sessionId) {
+        socket.join(sessionRoom(refreshed.sessionId));
+      }
+    }
+
+    Object.assign(socket.data, refreshed);
+    schedule();
+    return { expiresAt: new Date(refreshed.tokenExpiresAt) };
+  });
+
+  socket.on('disconnect', () => {
+    clearTimeout(warningTimer);
+    clearTimeout(expiryTimer);
+  });
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { messageService, sendMessageSchema } from '../services/messageService.js';
+import { typingService } from '../services/typingService.js';
+import { threadRoom, type AppSocket } from '../types/socket.js';
+import { socketEvents } from './events.js';
+
+const threadIdSchema = z.string().regex(/^[0-9a-f]{24}$/i, 'Invalid thread id');
+
+const socketMessageSchema = z.object({
+  threadId: threadIdSchema,
+  message: sendMessageSchema
+});
+
+const typingSchema = z.object({
+  threadId: threadIdSchema
+});
+
+const roomLimit = { burst: 20, perSecond: 2 };
+const typingLimit = { burst: 5, perSecond: 1 };
+
+// Chat namespace: thread rooms are participants-only, and messages sent here
+// are stored and fanned out exactly like POST /threads/:id/messages
+export function registerChatHandlers(socket: AppSocket) {
+  const events = socketEvents(socket, {
+    'Not a thread participant': { code: 'ACCESS_DENIED', message: 'You are not a participant of this thread' }
+  });
+
+  events.on('thread:join', { schema: threadIdSchema, perSocket: roomLimit }, async (threadId) => {
+    await messageService.findParticipantThread(socket.data.userId, threadId);
+    await socket.join(threadRoom(threadId));
+  });
+
+  events.on('thread:leave', { schema: threadIdSchema, perSocket: roomLimit }, async (threadId) => {
+    typingService.stop(threadId, socket.data.userId);
+    await socket.leave(threadRoom(threadId));
+  });
+
+  // Ack carries the stored message so the client can replace its optimistic copy
+  events.on('message:send', {
+    schema: socketMessageSchema,
+    perSocket: { burst: 10, perSecond: 1 },
+    perUser: { burst: 20, perSecond: 2 }
+  }, async ({ threadId, message }) => {
+    const saved = await messageService.sendMessage(socket.data.userId, threadId, message);
+    return { message: saved.toJSON() };
+  });
+
+  // Typing state is tracked server-side; see typingService
+  const startTyping = ({ threadId }: { threadId: string }) => {
+    // Only in threads this socket was admitted to
+    if (socket.rooms.has(threadRoom(threadId))) {
+      typingService.start(threadId, socket.data.userId, socket.id);
+    }
+  };
+  events.on('typing:start', { schema: typingSchema, perSocket: typingLimit }, startTyping);
+
+  // Deprecated name of typing:start, still sent by older app releases
+  events.on('thread:typing', { schema: typingSchema, perSocket: typingLimit }, startTyping);
+
+  events.on('typing:stop', { schema: typingSchema, perSocket: typingLimit }, ({ threadId }) => {
+    typingService.stop(threadId, socket.data.userId);
+  });
+
+  socket.on('disconnect', () => {
+    typingService.stopSocket(socket.id);
+  });
+}
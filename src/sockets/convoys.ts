@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { convoyLocationService, locationUpdateSchema } from '../services/convoyLocationService.js';
+import { convoyRoom, type AppSocket } from '../types/socket.js';
+import { socketEvents } from './events.js';
+
+const convoyIdSchema = z.string().regex(/^[0-9a-f]{24}$/i, 'Invalid convoy id');
+
+const socketLocationSchema = locationUpdateSchema.extend({
+  convoyId: convoyIdSchema
+});
+
+const roomLimit = { burst: 20, perSecond: 2 };
+
+// Presence namespace: convoy rooms are members-only, and location pings go
+// through the same path as POST /convoys/:id/location
+export function registerConvoyHandlers(socket: AppSocket) {
+  const events = socketEvents(socket, {
+    'Convoy not found': { code: 'CONVOY_NOT_FOUND', message: 'Convoy not found' },
+    'Not a convoy member': { code: 'ACCESS_DENIED', message: 'You are not a member of this convoy' }
+  });
+
+  events.on('convoy:join', { schema: convoyIdSchema, perSocket: roomLimit }, async (convoyId) => {
+    await convoyLocationService.findMemberConvoy(socket.data.userId, convoyId);
+    await socket.join(convoyRoom(convoyId));
+  });
+
+  events.on('convoy:leave', { schema: convoyIdSchema, perSocket: roomLimit }, async (convoyId) => {
+    await socket.leave(convoyRoom(convoyId));
+  });
+
+  // Each ping is a database write, so devices sharing an account share the budget
+  events.on('location:update', {
+    schema: socketLocationSchema,
+    perSocket: { burst: 5, perSecond: 1 },
+    perUser: { burst: 10, perSecond: 2 }
+  }, async ({ convoyId, ...location }) => {
+    await convoyLocationService.updateLocation(socket.data.userId, convoyId, location);
+  });
+}
@@ -0,0 +1,122 @@
+import type { z } from 'zod';
+import type { AppSocket } from '../types/socket.js';
+import { replyFor, replyError, type Ack } from './ack.js';
+import { TokenBucket, userBuckets, type RateLimit } from './rateLimit.js';
+
+const MAX_VIOLATIONS_PER_MINUTE = Number(process.env.SOCKET_MAX_VIOLATIONS_PER_MINUTE || 20);
+
+export interface SocketEventOptions<S extends z.ZodType> {
+  schema: S;
+  perSocket: RateLimit;
+  perUser?: RateLimit; // shared by all of the user's sockets
+}
+
+// Service error messages a module's handlers may throw, mapped to ack errors.
+// `disconnect` drops the socket after replying.
+export type KnownSocketErrors = Record<string, { code: string; message: string; disconnect?: boolean }>;
+
+// Resolves to extra ack fields: the client gets `{ ok: true, ...result }`
+export type SocketEventHandler<S extends z.ZodType> = (data: z.output<S>) => Promise<object | void> | object | void;
+
+interface SocketState {
+  events: Set<string>;
+  buckets: Map<string, TokenBucket>;
+  violations: TokenBucket;
+}
+
+const sockets = new WeakMap<AppSocket, SocketState>();
+
+// Unknown events, invalid payloads and rate-limited emits each count as a
+// violation; past SOCKET_MAX_VIOLATIONS_PER_MINUTE the socket gets
+// `limits:exceeded` and is disconnected
+function stateFor(socket: AppSocket): SocketState {
+  let state = sockets.get(socket);
+  if (!state) {
+    const created: SocketState = {
+      events: new Set(),
+      buckets: new Map(),
+      violations: new TokenBucket({ burst: MAX_VIOLATIONS_PER_MINUTE, perSecond: MAX_VIOLATIONS_PER_MINUTE / 60 })
+    };
+    sockets.set(socket, created);
+
+    socket.onAny((event: string, ...args: unknown[]) => {
+      if (!created.events.has(event)) {
+        replyError(replyFor(args.at(-1)), 'UNKNOWN_EVENT', `Unknown event: ${event}`);
+        recordViolation(socket, created, `unknown event ${event}`);
+      }
+    });
+    state = created;
+  }
+  return state;
+}
+
+function recordViolation(socket: AppSocket, state: SocketState, reason: string) {
+  if (socket.connected && !state.violations.take().ok) {
+    console.warn(`[socket] disconnecting ${socket.id} (user ${socket.data.userId}): ${reason}`);
+    socket.emit('limits:exceeded', { reason });
+    socket.disconnect(true);
+  }
+}
+
+function takeToken(socket: AppSocket, state: SocketState, event: string, options: SocketEventOptions<z.ZodType>) {
+  let bucket = state.buckets.get(event);
+  if (!bucket) {
+    bucket = new TokenBucket(options.perSocket);
+    state.buckets.set(event, bucket);
+  }
+
+  const perSocket = bucket.take();
+  if (!perSocket.ok || !options.perUser) {
+    return perSocket;
+  }
+  return userBuckets.get(socket.data.userId, event, options.perUser).take();
+}
+
+// Declares client events on a socket. Each emit is rate limited, then parsed
+// with its schema, before the handler runs; the optional ack callback always
+// gets `{ ok: true, ... }` or `{ ok: false, error: { code, message, details? } }`.
+export function socketEvents(socket: AppSocket, knownErrors: KnownSocketErrors = {}) {
+  const state = stateFor(socket);
+
+  const fail = (reply: Ack, event: string, error: any) => {
+    const known = knownErrors[error?.message];
+    if (!known) {
+      console.error(`[socket] ${event} failed`, error);
+      return replyError(reply, 'INTERNAL_ERROR', 'Something went wrong');
+    }
+    replyError(reply, known.code, known.message);
+    if (known.disconnect) {
+      socket.disconnect(true);
+    }
+  };
+
+  return {
+    on<S extends z.ZodType>(event: string, options: SocketEventOptions<S>, handler: SocketEventHandler<S>) {
+      state.events.add(event);
+
+      socket.on(event, async (...args: unknown[]) => {
+        // Clients may omit the payload and/or the acknowledgement callback
+        const reply = replyFor(typeof args.at(-1) === 'function' ? args.pop() : undefined);
+
+        const allowed = takeToken(socket, state, event, options);
+        if (!allowed.ok) {
+          replyError(reply, 'RATE_LIMITED', 'Too many events, slow down', { retryAfterMs: allowed.retryAfterMs });
+          return recordViolation(socket, state, `rate limit on ${event}`);
+        }
+
+        const parsed = options.schema.safeParse(args[0]);
+        if (!parsed.success) {
+          replyError(reply, 'VALIDATION_ERROR', 'Invalid input data', parsed.error.issues);
+          return recordViolation(socket, state, `invalid ${event} payload`);
+        }
+
+        try {
+          const result = await handler(parsed.data);
+          reply({ ok: true, ...result });
+        } catch (error) {
+          fail(reply, event, error);
+        }
+      });
+    }
+  };
+}
@@ -0,0 +1,128 @@
+import mongoose from 'mongoose';
+import {
+  ClusterAdapterWithHeartbeat,
+  type ClusterAdapterOptions,
+  type ClusterMessage,
+  type ClusterResponse,
+  type Offset,
+  type ServerId
+} from 'socket.io-adapter';
+
+type Collection = mongoose.mongo.Collection<AdapterDocument>;
+type ChangeStream = mongoose.mongo.ChangeStream<AdapterDocument>;
+
+// One inserted document per cluster message; responses carry the requester
+type AdapterDocument = (ClusterMessage | ClusterResponse) & {
+  target?: ServerId;
+  createdAt: Date;
+};
+
+export interface MongoAdapterOptions extends ClusterAdapterOptions {
+  collectionName?: string;
+  collectionSizeBytes?: number; // capped, so old messages are overwritten instead of piling up
+}
+
+const NAMESPACE_EXISTS = 48;
+const CHANGE_STREAM_HISTORY_LOST = 286;
+const RETRY_DELAY_MS = 1000;
+
+class MongoAdapter extends ClusterAdapterWithHeartbeat {
+  constructor(nsp: any, private hub: MongoAdapterHub, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+  }
+
+  receive(document: AdapterDocument, offset: Offset) {
+    if (document.target === undefined) {
+      this.onMessage(document as ClusterMessage, offset);
+    } else if (document.target === this.uid) {
+      this.onResponse(document as ClusterResponse);
+    }
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    const { insertedId } = await this.hub.collection.insertOne({ ...message, createdAt: new Date() });
+    return insertedId.toString();
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    await this.hub.collection.insertOne({ ...response, target: requesterUid, createdAt: new Date() });
+  }
+
+  override close() {
+    super.close();
+    this.hub.adapters.delete(this.nsp.name);
+  }
+}
+
+// Watches the shared collection with a change stream and hands each insert to
+// the adapter of its namespace. The stream is reopened, resuming where it left
+// off, if it fails.
+class MongoAdapterHub {
+  adapters = new Map<string, MongoAdapter>();
+  private stream: ChangeStream | null = null;
+  private resumeToken: unknown = undefined;
+
+  constructor(public collection: Collection) {}
+
+  watch() {
+    const stream = this.collection.watch<AdapterDocument>(
+      [{ $match: { operationType: 'insert' } }],
+      // Binary attachments in packets come back as Buffers, as Socket.IO expects
+      { promoteBuffers: true, ...(this.resumeToken ? { resumeAfter: this.resumeToken } : {}) }
+    );
+    this.stream = stream;
+
+    stream.on('change', (change) => {
+      this.resumeToken = change._id;
+      if (change.operationType !== 'insert') {
+        return;
+      }
+      const document = change.fullDocument;
+      this.adapters.get(document.nsp)?.receive(document, String(change.documentKey._id));
+    });
+
+    stream.on('error', (error: any) => {
+      console.error('[socket] adapter change stream failed', error);
+      if (error?.code === CHANGE_STREAM_HISTORY_LOST) {
+        this.resumeToken = undefined;
+      }
+      stream.close().catch(() => {});
+      setTimeout(() => {
+        if (this.stream === stream) {
+          this.watch();
+        }
+      }, RETRY_DELAY_MS).unref();
+    });
+  }
+}
+
+// Socket.IO adapter that relays broadcasts, room changes and server-side
+// emits between instances through MongoDB, so rooms span every instance.
+// Change streams need a replica set (any Atlas cluster, or a single-node
+// replica set locally).
+export async function createMongoAdapter(options: MongoAdapterOptions = {}) {
+  const { collectionName = 'socket_io_adapter', collectionSizeBytes = 10 * 1024 * 1024, ...clusterOptions } = options;
+  const db = mongoose.connection.db;
+  if (!db) {
+    throw new Error('MongoDB is not connected');
+  }
+
+  try {
+    await db.createCollection(collectionName, { capped: true, size: collectionSizeBytes });
+  } catch (error: any) {
+    if (error?.code !== NAMESPACE_EXISTS) {
+      throw error;
+    }
+  }
+
+  const hub = new MongoAdapterHub(db.collection<AdapterDocument>(collectionName));
+  hub.watch();
+
+  // Socket.IO instantiates this with `new`, so it can't be an arrow function
+  return function (nsp: any) {
+    const adapter = new MongoAdapter(nsp, hub, clusterOptions);
+    hub.adapters.set(nsp.name, adapter);
+    adapter.init();
+    return adapter;
+  };
+}
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { presenceService } from '../services/presenceService.js';
+import type { AppSocket } from '../types/socket.js';
+import { socketEvents } from './events.js';
+
+const heartbeatSchema = z.object({
+  away: z.boolean().optional()
+}).optional();
+
+// Every socket counts towards its user's presence, whichever namespace it is on.
+// Clients send `presence:heartbeat` (optionally `{ away: true }` when
+// backgrounded) at least every PRESENCE_AWAY_AFTER_SECONDS.
+export function registerPresenceHandlers(socket: AppSocket) {
+  const { userId } = socket.data;
+  const events = socketEvents(socket);
+
+  presenceService.connect(userId, socket.id).catch((error) => {
+    console.error('[presence] connect failed', error);
+  });
+
+  events.on('presence:heartbeat', { schema: heartbeatSchema, perSocket: { burst: 5, perSecond: 0.5 } }, async (data) => {
+    await presenceService.heartbeat(userId, socket.id, data?.away === true);
+  });
+
+  // Snapshot of friends' statuses; later changes arrive as `presence:update`
+  events.on('presence:friends', { schema: z.unknown(), perSocket: { burst: 5, perSecond: 0.1 } }, async () => {
+    return { friends: await presenceService.listFriends(userId) };
+  });
+
+  socket.on('disconnect', () => {
+    presenceService.disconnect(userId, socket.id).catch((error) => {
+      console.error('[presence] disconnect failed', error);
+    });
+  });
+}
@@ -0,0 +1,70 @@
+export interface RateLimit {
+  burst: number; // bucket size: events allowed back to back
+  perSecond: number; // refill rate
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private limit: RateLimit) {
+    this.tokens = limit.burst;
+  }
+
+  // Takes a token; on refusal returns how long until one is available
+  take(): { ok: true } | { ok: false; retryAfterMs: number } {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return { ok: true };
+    }
+    return { ok: false, retryAfterMs: Math.ceil(((1 - this.tokens) / this.limit.perSecond) * 1000) };
+  }
+
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.limit.burst;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.limit.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.limit.perSecond);
+    this.updatedAt = now;
+  }
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Buckets shared by all of a user's sockets, across namespaces. A full bucket
+// is the same as a fresh one, so those are swept instead of expiring on a timer.
+class UserBuckets {
+  private buckets = new Map<string, TokenBucket>();
+  private sweptAt = Date.now();
+
+  get(userId: string, event: string, limit: RateLimit): TokenBucket {
+    this.sweep();
+
+    const key = `${userId}:${event}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private sweep() {
+    const now = Date.now();
+    if (now - this.sweptAt < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.sweptAt = now;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isFull()) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export const userBuckets = new UserBuckets();
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { eventLogService } from '../services/eventLogService.js';
+import type { AppSocket } from '../types/socket.js';
+import { socketEvents } from './events.js';
+
+const resumeSchema = z.object({
+  stream: z.string().max(64).optional(),
+  seq: z.number().int().min(0).default(0)
+}).default({ seq: 0 });
+
+// After reconnecting, clients emit `events:resume` with the `{ stream, seq }`
+// of the last replayable event they handled. Missed events for this namespace
+// are re-emitted in order, with their meta, before the ack. With
+// `resyncRequired: true` the gap can't be filled: refetch over REST and carry
+// on from the returned stream and seq.
+export function registerReplayHandlers(socket: AppSocket) {
+  const events = socketEvents(socket);
+
+  events.on('events:resume', { schema: resumeSchema, perSocket: { burst: 5, perSecond: 0.1 } }, ({ stream, seq }) => {
+    const result = eventLogService.since(socket.data.userId, socket.nsp.name, stream, seq);
+    if (result.resyncRequired) {
+      return { resyncRequired: true, stream: result.stream, seq: result.seq };
+    }
+
+    for (const entry of result.events) {
+      socket.emit(entry.event, entry.payload, { stream: result.stream, seq: entry.seq });
+    }
+    return { resyncRequired: false, replayed: result.events.length, stream: result.stream, seq: result.seq };
+  });
+}
@@ -5,4 +5,34 @@ export interface TokenPayload {
   email: string;
   username: string;
   type: TokenKind;
+  sessionId?: string; // refresh session family id, carried by both token kinds
+  tokenId?: string; // one-time id of a refresh token within its family
+  exp?: number; // expiry in seconds since the epoch, added when signed
 }
+
+export interface SessionContext {
+  userAgent?: string | undefined;
+  ip?: string | undefined;
+  deviceId?: string | undefined;
+  platform?: 'ios' | 'android' | 'web' | undefined;
+  appVersion?: string | undefined;
+}
+
+// Permissions a personal access token can be granted. Routes declare the one
+// they need with requireScope; session (JWT) requests implicitly hold them all.
+export const TOKEN_SCOPES = [
+  'profile:read',
+  'profile:write',
+  'users:read',
+  'friends:read',
+  'friends:write',
+  'convoys:read',
+  'convoys:write',
+  'messages:read',
+  'messages:send',
+  'notifications:read',
+  'notifications:write',
+  'media:write'
+] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
@@ -0,0 +1,35 @@
+import type { DefaultEventsMap, Namespace, Server, Socket } from 'socket.io';
+import type { UserRole } from '../models/User.js';
+
+// Per-connection state set by socketAuthMiddleware
+export interface SocketData {
+  userId: string;
+  username: string;
+  role: UserRole;
+  sessionId?: string | undefined;
+  tokenExpiresAt: number; // epoch ms; the socket is dropped then unless re-authenticated
+}
+
+export type AppSocket = Socket<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>;
+export type AppServer = Server<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>;
+export type AppNamespace = Namespace<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>;
+
+// Room every socket of a user joins, in each namespace
+export function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+// Room every socket signed in with one refresh session joins, in each namespace
+export function sessionRoom(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+// Presence room receiving a convoy's location updates; members only
+export function convoyRoom(convoyId: string): string {
+  return `convoy:${convoyId}`;
+}
+
+// Chat room for a thread's live messages; participants only
+export function threadRoom(threadId: string): string {
+  return `thread:${threadId}`;
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NextFunction, Response } from 'express';
+import { Types } from 'mongoose';
+import { requireAuth, requireScope, requireSession, type AuthenticatedRequest } from '../../src/middleware/auth.js';
+import { authService } from '../../src/services/authService.js';
+import { principalCache, type CachedPrincipal } from '../../src/services/principalCache.js';
+import { PersonalAccessToken, PERSONAL_ACCESS_TOKEN_PREFIX } from '../../src/models/PersonalAccessToken.js';
+import type { TokenScope } from '../../src/types/auth.js';
+
+type Middleware = (req: AuthenticatedRequest, res: Response, next: NextFunction) => unknown;
+
+const userId = new Types.ObjectId().toString();
+const tokenId = new Types.ObjectId();
+const patToken = `${PERSONAL_ACCESS_TOKEN_PREFIX}test-token`;
+
+const principal: CachedPrincipal = {
+  id: userId,
+  email: 'rider@example.com',
+  username: 'rider',
+  emailVerified: true,
+  role: 'user',
+  suspendedAt: null,
+  suspendedUntil: null,
+  sessionIds: ['family-1']
+};
+
+// Runs the middleware in order the way Express would, stopping at the first
+// one that responds instead of calling next()
+async function run(token: string, ...chain: Middleware[]) {
+  const req = { headers: { authorization: `Bearer ${token}` } } as AuthenticatedRequest;
+  let response: { status: number; body: any } | null = null;
+  const res = {
+    status(code: number) {
+      response = { status: code, body: undefined };
+      return this;
+    },
+    json(body: unknown) {
+      response!.body = body;
+      return this;
+    }
+  } as unknown as Response;
+
+  for (const middleware of chain) {
+    let passed = false;
+    await middleware(req, res, () => {
+      passed = true;
+    });
+    if (!passed) {
+      return { req, response: response as { status: number; body: any } | null };
+    }
+  }
+  return { req, response: null };
+}
+
+let grantedScopes: TokenScope[];
+
+beforeEach(() => {
+  grantedScopes = ['profile:read', 'convoys:read'];
+
+  vi.spyOn(PersonalAccessToken, 'findActiveByToken').mockImplementation(async (token) =>
+    (token === patToken
+      ? { _id: tokenId, userId: new Types.ObjectId(userId), scopes: grantedScopes, lastUsedAt: new Date() }
+      : null) as any
+  );
+  vi.spyOn(authService, 'verifyAccessToken').mockImplementation(async (token) => {
+    if (token !== 'session-jwt') {
+      throw new Error('Invalid access token');
+    }
+    return { userId, email: principal.email, username: principal.username, type: 'access', sessionId: 'family-1' };
+  });
+  vi.spyOn(principalCache, 'get').mockImplementation(async (id) => (id.toString() === userId ? principal : null));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('requireScope', () => {
+  it('lets a personal access token through with the scope', async () => {
+    const { req, response } = await run(patToken, requireAuth, requireScope('convoys:read'));
+
+    expect(response).toBeNull();
+    expect(req.accessTokenId).toBe(tokenId.toString());
+    expect(req.tokenScopes).toEqual(['profile:read', 'convoys:read']);
+  });
+
+  it('rejects a personal access token without the scope', async () => {
+    const { response } = await run(patToken, requireAuth, requireScope('convoys:write'));
+
+    expect(response?.status).toBe(403);
+    expect(response?.body.error).toEqual({
+      code: 'INSUFFICIENT_SCOPE',
+      message: 'This access token lacks the "convoys:write" scope'
+    });
+  });
+
+  it('treats read and write scopes as separate', async () => {
+    grantedScopes = ['profile:write'];
+
+    expect((await run(patToken, requireAuth, requireScope('profile:write'))).response).toBeNull();
+    expect((await run(patToken, requireAuth, requireScope('profile:read'))).response?.status).toBe(403);
+  });
+
+  it('rejects every scope for a token granted none', async () => {
+    grantedScopes = [];
+
+    expect((await run(patToken, requireAuth, requireScope('profile:read'))).response?.status).toBe(403);
+  });
+
+  it('lets session tokens through regardless of scope', async () => {
+    const { req, response } = await run('session-jwt', requireAuth, requireScope('convoys:write'));
+
+    expect(response).toBeNull();
+    expect(req.sessionId).toBe('family-1');
+    expect(req.tokenScopes).toBeUndefined();
+  });
+
+  it('rejects revoked or unknown personal access tokens before any scope check', async () => {
+    const { response } = await run(`${PERSONAL_ACCESS_TOKEN_PREFIX}revoked`, requireAuth, requireScope('profile:read'));
+
+    expect(response?.status).toBe(401);
+    expect(response?.body.error.code).toBe('INVALID_TOKEN');
+  });
+});
+
+describe('requireSession', () => {
+  it('keeps personal access tokens out of session-only endpoints', async () => {
+    grantedScopes = ['profile:read', 'profile:write'];
+    const { response } = await run(patToken, requireAuth, requireSession);
+
+    expect(response?.status).toBe(403);
+    expect(response?.body.error.code).toBe('SESSION_REQUIRED');
+  });
+
+  it('lets session tokens through', async () => {
+    expect((await run('session-jwt', requireAuth, requireSession)).response).toBeNull();
+  });
+});
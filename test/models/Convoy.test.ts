@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { Convoy } from '../../src/models/Convoy.js';
+import { toGeoPoint, type GeoPoint } from '../../src/models/geo.js';
+
+// MongoDB's spherical distances use this radius
+const EARTH_RADIUS_M = 6378100;
+
+function sphericalDistance([lng1, lat1]: [number, number], [lng2, lat2]: [number, number]): number {
+  const rad = Math.PI / 180;
+  const a =
+    Math.sin(((lat2 - lat1) * rad) / 2) ** 2 +
+    Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(((lng2 - lng1) * rad) / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+// Evaluates the `$geoNear` and `$limit` stages the way the server would, so the
+// pipeline's parameters (coordinate order, units, filter) are what's under test
+function runPipeline(docs: any[], pipeline: any[]): any[] {
+  let rows = docs;
+  for (const stage of pipeline) {
+    if (stage.$geoNear) {
+      const { near, key, distanceField, distanceMultiplier = 1, maxDistance = Infinity, query = {} } = stage.$geoNear;
+      rows = rows
+        .filter((doc) => Object.entries(query).every(([field, value]) => (doc[field] ?? null) === value))
+        .filter((doc) => doc[key]?.type === 'Point')
+        .map((doc) => ({ doc, meters: sphericalDistance(near.coordinates, doc[key].coordinates) }))
+        .filter(({ meters }) => meters <= maxDistance)
+        .sort((a, b) => a.meters - b.meters)
+        .map(({ doc, meters }) => ({ ...doc, [distanceField]: meters * distanceMultiplier }));
+    } else if (stage.$limit !== undefined) {
+      rows = rows.slice(0, stage.$limit);
+    } else {
+      throw new Error(`Unexpected stage ${Object.keys(stage)[0]}`);
+    }
+  }
+  return rows;
+}
+
+function convoy(title: string, lat: number, lng: number, overrides: object = {}) {
+  return {
+    _id: new Types.ObjectId(),
+    title,
+    isLive: true,
+    deletedAt: null,
+    currentCenter: { ...toGeoPoint(lat, lng), heading: 90, updatedAt: new Date() } as GeoPoint & { heading: number },
+    ...overrides
+  };
+}
+
+// Around central London; the query point is Trafalgar Square
+const here = { lat: 51.508, lng: -0.128 };
+const stored = [
+  convoy('Greenwich', 51.4826, -0.0077), // ~8.8 km
+  convoy('Soho', 51.5136, -0.1365), // ~0.9 km
+  convoy('Windsor', 51.4839, -0.6044), // ~33 km
+  convoy('Camden', 51.539, -0.1426), // ~3.6 km
+  convoy('Ended nearby', 51.509, -0.129, { isLive: false }),
+  convoy('Deleted nearby', 51.509, -0.129, { deletedAt: new Date() }),
+  convoy('Not started', 0, 0, { currentCenter: undefined })
+];
+
+let pipeline: any[];
+
+beforeEach(() => {
+  vi.spyOn(Convoy, 'aggregate').mockImplementation(((stages: any[]) => {
+    pipeline = stages;
+    return Promise.resolve(runPipeline(stored, stages));
+  }) as any);
+  vi.spyOn(Convoy, 'populate').mockImplementation((async (docs: unknown) => docs) as any);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Convoy.findNearbyConvoys', () => {
+  it('returns live convoys within the radius, nearest first', async () => {
+    const nearby = await Convoy.findNearbyConvoys(here.lat, here.lng, 10, 20);
+
+    expect(nearby.map((c) => c.title)).toEqual(['Soho', 'Camden', 'Greenwich']);
+    const distances = nearby.map((c) => c.distanceKm);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  it('reports distances in kilometres', async () => {
+    const [soho, camden, greenwich] = await Convoy.findNearbyConvoys(here.lat, here.lng, 10, 20);
+
+    expect(soho!.distanceKm).toBeCloseTo(0.9, 1);
+    expect(camden!.distanceKm).toBeCloseTo(3.6, 1);
+    expect(greenwich!.distanceKm).toBeCloseTo(8.8, 1);
+  });
+
+  it('searches from the point as [lng, lat]', async () => {
+    await Convoy.findNearbyConvoys(here.lat, here.lng, 10, 20);
+
+    expect(pipeline[0].$geoNear).toMatchObject({
+      near: { type: 'Point', coordinates: [here.lng, here.lat] },
+      key: 'currentCenter',
+      maxDistance: 10_000,
+      spherical: true
+    });
+  });
+
+  it('applies the limit to the nearest convoys', async () => {
+    const nearby = await Convoy.findNearbyConvoys(here.lat, here.lng, 50, 2);
+
+    expect(nearby.map((c) => c.title)).toEqual(['Soho', 'Camden']);
+    expect(pipeline.findIndex((stage) => '$limit' in stage)).toBeGreaterThan(
+      pipeline.findIndex((stage) => '$geoNear' in stage)
+    );
+  });
+
+  it('returns currentCenter as lat/lng', async () => {
+    const [soho] = await Convoy.findNearbyConvoys(here.lat, here.lng, 10, 20);
+
+    expect(soho!.currentCenter).toEqual({ lat: 51.5136, lng: -0.1365, heading: 90, updatedAt: expect.any(Date) });
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { authService } from '../../src/services/authService.js';
+import { jwtKeyStore } from '../../src/services/jwtKeyStore.js';
+import { principalCache } from '../../src/services/principalCache.js';
+import { realtimeService } from '../../src/services/realtimeService.js';
+import { RefreshSession } from '../../src/models/RefreshSession.js';
+import { User } from '../../src/models/User.js';
+import type { TokenPayload } from '../../src/types/auth.js';
+
+const userId = new Types.ObjectId();
+const familyId = 'family-1';
+
+// One refresh session family, with the collection operations the service
+// uses reduced to what they do to it
+function fakeSession() {
+  return {
+    userId,
+    familyId,
+    currentTokenId: 'token-1',
+    revokedAt: null as Date | null,
+    revokedReason: null as string | null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    isActive() {
+      return !this.revokedAt && this.expiresAt.getTime() > Date.now();
+    },
+    async revoke(reason: string) {
+      this.revokedAt ??= new Date();
+      this.revokedReason ??= reason;
+    }
+  };
+}
+
+let session: ReturnType<typeof fakeSession>;
+
+function refreshTokenFor(tokenId: string) {
+  return jwtKeyStore.sign('refresh', {
+    userId: userId.toString(),
+    email: 'rider@example.com',
+    username: 'rider',
+    type: 'refresh',
+    sessionId: familyId,
+    tokenId
+  }, '7d');
+}
+
+beforeEach(() => {
+  session = fakeSession();
+
+  vi.spyOn(RefreshSession, 'findByFamily').mockImplementation(async (id) => (id === familyId ? session : null) as any);
+  vi.spyOn(RefreshSession, 'rotate').mockImplementation(async (id, fromTokenId, toTokenId) => {
+    if (id !== familyId || !session.isActive() || session.currentTokenId !== fromTokenId) {
+      return null;
+    }
+    session.currentTokenId = toTokenId;
+    return session as any;
+  });
+  vi.spyOn(RefreshSession, 'revokeFamily').mockImplementation(async (id, reason) => {
+    if (id === familyId) {
+      await session.revoke(reason);
+    }
+  });
+
+  const user = {
+    _id: userId,
+    email: 'rider@example.com',
+    username: 'rider',
+    isSuspended: () => false
+  };
+  vi.spyOn(User, 'findOne').mockReturnValue({ select: async () => user } as any);
+
+  vi.spyOn(principalCache, 'invalidate').mockResolvedValue();
+  vi.spyOn(realtimeService, 'disconnectSession').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('authService.refreshToken', () => {
+  it('rotates the family to a new refresh token', async () => {
+    const tokens = await authService.refreshToken(await refreshTokenFor('token-1'));
+
+    const refresh = await jwtKeyStore.verify<TokenPayload>('refresh', tokens.refreshToken);
+    expect(refresh.sessionId).toBe(familyId);
+    expect(refresh.tokenId).not.toBe('token-1');
+    expect(session.currentTokenId).toBe(refresh.tokenId);
+
+    const access = await jwtKeyStore.verify<TokenPayload>('access', tokens.accessToken);
+    expect(access).toMatchObject({ type: 'access', sessionId: familyId, userId: userId.toString() });
+    expect(access.tokenId).toBeUndefined();
+  });
+
+  it('accepts each rotated token once, in turn', async () => {
+    const first = await authService.refreshToken(await refreshTokenFor('token-1'));
+    const second = await authService.refreshToken(first.refreshToken);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(session.revokedAt).toBeNull();
+  });
+
+  it('revokes the family when a used token is presented again', async () => {
+    const used = await refreshTokenFor('token-1');
+    const rotated = await authService.refreshToken(used);
+
+    await expect(authService.refreshToken(used)).rejects.toThrow('Refresh token reuse detected');
+
+    expect(session.revokedReason).toBe('reuse_detected');
+    expect(principalCache.invalidate).toHaveBeenCalledWith(userId);
+    expect(realtimeService.disconnectSession).toHaveBeenCalledWith(familyId, expect.objectContaining({ code: 'SESSION_REVOKED' }));
+
+    // The legitimate holder's current token dies with the family
+    await expect(authService.refreshToken(rotated.refreshToken)).rejects.toThrow('Invalid refresh token');
+  });
+
+  it('rejects tokens of a revoked session', async () => {
+    await session.revoke('logout');
+
+    await expect(authService.refreshToken(await refreshTokenFor('token-1'))).rejects.toThrow('Invalid refresh token');
+    expect(RefreshSession.rotate).not.toHaveBeenCalled();
+  });
+
+  it('rejects access tokens presented as refresh tokens', async () => {
+    const tokens = await authService.refreshToken(await refreshTokenFor('token-1'));
+
+    await expect(authService.refreshToken(tokens.accessToken)).rejects.toThrow('Invalid refresh token');
+  });
+});
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { loginThrottleService } from '../../src/services/loginThrottleService.js';
+import { notificationService } from '../../src/services/notificationService.js';
+import { mailer } from '../../src/services/mailer.js';
+import { LoginAttempt, type ILoginAttempt } from '../../src/models/LoginAttempt.js';
+import { User } from '../../src/models/User.js';
+
+const user = {
+  _id: new Types.ObjectId(),
+  id: '',
+  email: 'rider@example.com',
+  username: 'rider'
+};
+user.id = user._id.toString();
+
+// Counters held in memory, updated the way the model's statics update them
+let counters: Map<string, ILoginAttempt>;
+
+async function failTimes(times: number, identifier: string, ip?: string) {
+  for (let i = 0; i < times; i++) {
+    await loginThrottleService.recordFailure(identifier, ip);
+  }
+}
+
+function retryAfterOf(promise: Promise<void>) {
+  return promise.then(() => null, (error) => ({ message: error.message, retryAfter: error.retryAfter }));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-03-01T12:00:00Z') });
+  counters = new Map();
+
+  vi.spyOn(User, 'findOne').mockImplementation(((filter: any) => {
+    const [byEmail, byUsername] = filter.$or;
+    return Promise.resolve(byEmail.email === user.email || byUsername.username === user.username ? user : null);
+  }) as any);
+
+  vi.spyOn(LoginAttempt, 'findByKeys').mockImplementation(async (keys) =>
+    keys.flatMap((key) => counters.get(key) ?? []) as any
+  );
+  vi.spyOn(LoginAttempt, 'recordFailure').mockImplementation(async (key, windowMs) => {
+    const now = new Date();
+    const counter = counters.get(key) ?? { key, failures: 0, lastFailureAt: now, lockedUntil: null, lockCount: 0, expiresAt: now };
+    if (counter.lastFailureAt.getTime() < now.getTime() - windowMs) {
+      counter.failures = 0;
+    }
+    counter.failures += 1;
+    counter.lastFailureAt = now;
+    counters.set(key, counter);
+    return counter as any;
+  });
+  vi.spyOn(LoginAttempt, 'lock').mockImplementation(async (key, lockedUntil) => {
+    const counter = counters.get(key)!;
+    counter.lockedUntil = lockedUntil;
+    counter.failures = 0;
+    counter.lockCount += 1;
+  });
+  vi.spyOn(LoginAttempt, 'resetFailures').mockImplementation(async (key) => {
+    const counter = counters.get(key);
+    if (counter) {
+      counter.failures = 0;
+    }
+  });
+
+  vi.spyOn(notificationService, 'send').mockImplementation(async (notification) => notification);
+  vi.spyOn(mailer, 'send').mockResolvedValue();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+function advance(seconds: number) {
+  vi.setSystemTime(Date.now() + seconds * 1000);
+}
+
+describe('loginThrottleService', () => {
+  it('allows the first three failures without delay', async () => {
+    await failTimes(2, 'rider@example.com');
+    await expect(loginThrottleService.assertAllowed('rider@example.com')).resolves.toBeUndefined();
+
+    await failTimes(1, 'rider@example.com');
+    expect(await retryAfterOf(loginThrottleService.assertAllowed('rider@example.com')))
+      .toEqual({ message: 'Too many login attempts', retryAfter: 1 });
+
+    advance(1);
+    await expect(loginThrottleService.assertAllowed('rider@example.com')).resolves.toBeUndefined();
+  });
+
+  it('doubles the delay with each further failure, up to a minute', async () => {
+    await failTimes(5, 'rider@example.com');
+    expect((await retryAfterOf(loginThrottleService.assertAllowed('rider@example.com')))?.retryAfter).toBe(4);
+
+    await failTimes(4, 'rider@example.com');
+    expect((await retryAfterOf(loginThrottleService.assertAllowed('rider@example.com')))?.retryAfter).toBe(60);
+  });
+
+  it('counts failures by email and username against the same account', async () => {
+    await failTimes(2, 'Rider@Example.com');
+    await failTimes(1, 'rider');
+
+    expect(counters.get(`account:${user.id}`)?.failures).toBe(3);
+    expect((await retryAfterOf(loginThrottleService.assertAllowed('rider')))?.message).toBe('Too many login attempts');
+  });
+
+  it('throttles identifiers that have no account the same way', async () => {
+    await failTimes(3, 'nobody@example.com');
+
+    expect(counters.get('account:nobody@example.com')?.failures).toBe(3);
+    expect((await retryAfterOf(loginThrottleService.assertAllowed('nobody@example.com')))?.message).toBe('Too many login attempts');
+  });
+
+  it('locks the account after ten failures and tells the owner', async () => {
+    await failTimes(10, 'rider@example.com');
+
+    expect(await retryAfterOf(loginThrottleService.assertAllowed('rider@example.com')))
+      .toEqual({ message: 'Account locked', retryAfter: 15 * 60 });
+    expect(notificationService.send).toHaveBeenCalledOnce();
+    expect(mailer.send).toHaveBeenCalledWith(expect.objectContaining({ to: user.email }));
+
+    advance(15 * 60);
+    await expect(loginThrottleService.assertAllowed('rider@example.com')).resolves.toBeUndefined();
+  });
+
+  it('makes each lockout twice as long as the last', async () => {
+    await failTimes(10, 'rider@example.com');
+    advance(15 * 60);
+    await failTimes(10, 'rider@example.com');
+
+    expect((await retryAfterOf(loginThrottleService.assertAllowed('rider@example.com')))?.retryAfter).toBe(30 * 60);
+  });
+
+  it('starts counting again once the failure window has passed', async () => {
+    await failTimes(5, 'rider@example.com');
+    advance(61 * 60);
+    await failTimes(1, 'rider@example.com');
+
+    expect(counters.get(`account:${user.id}`)?.failures).toBe(1);
+    await expect(loginThrottleService.assertAllowed('rider@example.com')).resolves.toBeUndefined();
+  });
+
+  it('resets the account on success but not the IP', async () => {
+    await failTimes(5, 'rider@example.com', '203.0.113.7');
+    await loginThrottleService.recordSuccess('rider');
+
+    expect(counters.get(`account:${user.id}`)?.failures).toBe(0);
+    expect(counters.get('ip:203.0.113.7')?.failures).toBe(5);
+    expect((await retryAfterOf(loginThrottleService.assertAllowed('rider', '203.0.113.7')))?.message).toBe('Too many login attempts');
+  });
+
+  it('locks an IP guessing across many accounts', async () => {
+    for (let i = 0; i < 50; i++) {
+      await loginThrottleService.recordFailure(`user${i}@example.com`, '203.0.113.7');
+    }
+
+    expect(await retryAfterOf(loginThrottleService.assertAllowed('rider@example.com', '203.0.113.7')))
+      .toEqual({ message: 'Too many login attempts', retryAfter: 15 * 60 });
+    await expect(loginThrottleService.assertAllowed('rider@example.com', '198.51.100.1')).resolves.toBeUndefined();
+    expect(mailer.send).not.toHaveBeenCalled();
+  });
+});
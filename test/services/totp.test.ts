@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, currentStep, generateCode, verifyCode } from '../../src/services/totp.js';
+
+// RFC 6238 appendix B seed for HMAC-SHA1
+const SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    expect(base32Decode(SECRET).toString()).toBe('12345678901234567890');
+    expect(SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('matches the RFC 6238 test vectors, truncated to 6 digits', () => {
+    expect(generateCode(SECRET, currentStep(59 * 1000))).toBe('287082');
+    expect(generateCode(SECRET, currentStep(1111111109 * 1000))).toBe('081804');
+    expect(generateCode(SECRET, currentStep(2000000000 * 1000))).toBe('279037');
+  });
+
+  describe('verifyCode', () => {
+    const now = 1111111109 * 1000;
+    const step = currentStep(now);
+
+    it('returns the matching step for the current code', () => {
+      expect(verifyCode(SECRET, generateCode(SECRET, step), 1, now)).toBe(step);
+    });
+
+    it('allows one step of drift either way by default', () => {
+      expect(verifyCode(SECRET, generateCode(SECRET, step - 1), undefined, now)).toBe(step - 1);
+      expect(verifyCode(SECRET, generateCode(SECRET, step + 1), undefined, now)).toBe(step + 1);
+    });
+
+    it('rejects codes outside the window', () => {
+      expect(verifyCode(SECRET, generateCode(SECRET, step - 2), 1, now)).toBeNull();
+      expect(verifyCode(SECRET, generateCode(SECRET, step + 2), 1, now)).toBeNull();
+      expect(verifyCode(SECRET, generateCode(SECRET, step - 1), 0, now)).toBeNull();
+      expect(verifyCode(SECRET, generateCode(SECRET, step - 2), 2, now)).toBe(step - 2);
+    });
+
+    it('rejects anything but six digits', () => {
+      const code = generateCode(SECRET, step);
+      expect(verifyCode(SECRET, ` ${code}`, 1, now)).toBeNull();
+      expect(verifyCode(SECRET, code.slice(1), 1, now)).toBeNull();
+      expect(verifyCode(SECRET, 'abcdef', 1, now)).toBeNull();
+    });
+  });
+});
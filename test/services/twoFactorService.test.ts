@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { twoFactorService } from '../../src/services/twoFactorService.js';
+import { currentStep, generateCode } from '../../src/services/totp.js';
+import { User } from '../../src/models/User.js';
+
+// A user document held in memory. updateOne applies the two conditional
+// updates the service issues, matching their filters.
+function fakeUser() {
+  const user: any = {
+    _id: new Types.ObjectId(),
+    email: 'rider@example.com',
+    twoFactor: { enabled: false, recoveryCodeHashes: [], lastUsedStep: null },
+    set(path: string, value: unknown) {
+      const keys = path.split('.');
+      const last = keys.pop()!;
+      keys.reduce((target, key) => target[key], user)[last] = value;
+    },
+    save: async () => user
+  };
+  return user;
+}
+
+let user: ReturnType<typeof fakeUser>;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-03-01T12:00:00Z') });
+  user = fakeUser();
+
+  const query = { select: async () => user };
+  vi.spyOn(User, 'findOne').mockReturnValue(query as any);
+  vi.spyOn(User, 'findById').mockReturnValue(query as any);
+  vi.spyOn(User, 'updateOne').mockImplementation((async (_filter: unknown, update: any) => {
+    const twoFactor = user.twoFactor;
+    const hash = update.$pull?.['twoFactor.recoveryCodeHashes'];
+    if (hash !== undefined) {
+      const index = twoFactor.recoveryCodeHashes.indexOf(hash);
+      if (index === -1) {
+        return { modifiedCount: 0 };
+      }
+      twoFactor.recoveryCodeHashes.splice(index, 1);
+      return { modifiedCount: 1 };
+    }
+
+    const step = update.$set['twoFactor.lastUsedStep'];
+    if (twoFactor.lastUsedStep !== null && twoFactor.lastUsedStep >= step) {
+      return { modifiedCount: 0 };
+    }
+    twoFactor.lastUsedStep = step;
+    return { modifiedCount: 1 };
+  }) as any);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+async function enrol(): Promise<{ secret: string; recoveryCodes: string[] }> {
+  const { secret } = await twoFactorService.beginEnrolment(user._id.toString());
+  const recoveryCodes = await twoFactorService.confirmEnrolment(user._id.toString(), generateCode(secret, currentStep()));
+  return { secret, recoveryCodes };
+}
+
+describe('twoFactorService', () => {
+  it('enables 2FA only once a code from the pending secret is confirmed', async () => {
+    const { secret } = await twoFactorService.beginEnrolment(user._id.toString());
+    expect(user.twoFactor.enabled).toBe(false);
+
+    await expect(twoFactorService.confirmEnrolment(user._id.toString(), '000000')).rejects.toThrow('Invalid two-factor code');
+
+    const recoveryCodes = await twoFactorService.confirmEnrolment(user._id.toString(), generateCode(secret, currentStep()));
+    expect(user.twoFactor).toMatchObject({ enabled: true, secret, pendingSecret: null });
+    expect(recoveryCodes).toHaveLength(10);
+    expect(user.twoFactor.recoveryCodeHashes).not.toContain(recoveryCodes[0]);
+  });
+
+  describe('recovery codes', () => {
+    it('accepts each code once', async () => {
+      const { recoveryCodes } = await enrol();
+      const [code] = recoveryCodes;
+
+      expect(await twoFactorService.verifyForUser(user._id.toString(), code!)).toBe(true);
+      expect(await twoFactorService.verifyForUser(user._id.toString(), code!)).toBe(false);
+      expect(user.twoFactor.recoveryCodeHashes).toHaveLength(9);
+    });
+
+    it('leaves the other codes usable', async () => {
+      const { recoveryCodes } = await enrol();
+
+      expect(await twoFactorService.verifyForUser(user._id.toString(), recoveryCodes[0]!)).toBe(true);
+      expect(await twoFactorService.verifyForUser(user._id.toString(), recoveryCodes[1]!)).toBe(true);
+    });
+
+    it('ignores case and surrounding whitespace', async () => {
+      const { recoveryCodes } = await enrol();
+
+      expect(await twoFactorService.verifyForUser(user._id.toString(), ` ${recoveryCodes[0]!.toUpperCase()} `)).toBe(true);
+    });
+  });
+
+  describe('TOTP codes', () => {
+    it('rejects a code already used for enrolment or sign-in', async () => {
+      const { secret } = await enrol();
+
+      expect(await twoFactorService.verifyForUser(user._id.toString(), generateCode(secret, currentStep()))).toBe(false);
+
+      vi.setSystemTime(Date.now() + 30 * 1000);
+      const next = generateCode(secret, currentStep());
+      expect(await twoFactorService.verifyForUser(user._id.toString(), next)).toBe(true);
+      expect(await twoFactorService.verifyForUser(user._id.toString(), next)).toBe(false);
+    });
+
+    it('rejects a code older than the last one used, even inside the drift window', async () => {
+      const { secret } = await enrol();
+      const step = currentStep();
+
+      vi.setSystemTime(Date.now() + 30 * 1000);
+      expect(await twoFactorService.verifyForUser(user._id.toString(), generateCode(secret, step + 1))).toBe(true);
+      expect(await twoFactorService.verifyForUser(user._id.toString(), generateCode(secret, step))).toBe(false);
+    });
+
+    it('rejects codes outside the drift window', async () => {
+      const { secret } = await enrol();
+
+      vi.setSystemTime(Date.now() + 90 * 1000);
+      expect(await twoFactorService.verifyForUser(user._id.toString(), generateCode(secret, currentStep() + 2))).toBe(false);
+    });
+  });
+
+  it('returns false for users without 2FA', async () => {
+    expect(await twoFactorService.verifyForUser(user._id.toString(), '123456')).toBe(false);
+  });
+});